@@ -1,23 +1,350 @@
-import { lazy, Suspense, useEffect, useState } from 'react';
-import { Link, Navigate, Route, Routes, useLocation } from 'react-router-dom';
+import { Fragment, lazy, Suspense, useEffect, useState } from 'react';
+import { Link, Navigate, Route, Routes, useLocation, useParams } from 'react-router-dom';
 import { Badge } from '@cloudflare/kumo/components/badge';
 import { Button } from '@cloudflare/kumo/components/button';
 import { Input, Textarea } from '@cloudflare/kumo/components/input';
+import { Select } from '@cloudflare/kumo/components/select';
 import { Surface } from '@cloudflare/kumo/components/surface';
-import type { ExampleRunResult, SessionRunResult } from './types';
-import { examples, sessions, type ExampleDefinition, type SessionDefinition } from './workshop';
+import type {
+  ArtifactInfo,
+  CiTestCase,
+  CodeLanguage,
+  ContentBlockRunResult,
+  CsvProfile,
+  DatasetInfo,
+  ExampleRunResult,
+  ExampleStreamEvent,
+  FacilitatorOverview,
+  FacilitatorRun,
+  NetworkEgressReport,
+  NetworkPolicy,
+  NetworkPolicyMode,
+  NotebookCellResult,
+  NotebookContextInfo,
+  NotebookLanguage,
+  PreviewInfo,
+  RepairAttempt,
+  ResourceLimitReport,
+  ResourceLimits,
+  RichOutput,
+  RunHistoryEntry,
+  RunHistorySummary,
+  SandboxInspection,
+  SandboxSummary,
+  SessionRunResult,
+  StaticAnalysisReport
+} from './types';
+import {
+  defaultNetworkPolicy,
+  defaultResourceLimits,
+  examples,
+  fieldIsVisible,
+  networkPolicyModes,
+  sessions,
+  type ContentBlock,
+  type ExampleDefinition,
+  type ExampleField,
+  type SessionDefinition
+} from './workshop';
 
 const TerminalLab = lazy(async () => {
   const mod = await import('./TerminalLab');
   return { default: mod.TerminalLab };
 });
 
+const TerminalRecordingList = lazy(async () => {
+  const mod = await import('./TerminalLab');
+  return { default: mod.TerminalRecordingList };
+});
+
+const TerminalSpectator = lazy(async () => {
+  const mod = await import('./TerminalLab');
+  return { default: mod.TerminalSpectator };
+});
+
 type RunnerState<T> = {
   loading: boolean;
   data?: T;
   error?: string;
 };
 
+type UploadedFile = {
+  name: string;
+  base64: string;
+};
+
+
+const resourceLimitFields: Array<{ key: keyof ResourceLimits; label: string }> = [
+  { key: 'cpuSeconds', label: 'CPU time (s)' },
+  { key: 'memoryMb', label: 'Memory (MB)' },
+  { key: 'outputKb', label: 'Output (KB)' },
+  { key: 'maxProcesses', label: 'Processes' },
+  { key: 'wallSeconds', label: 'Wall time (s)' }
+];
+
+async function readFileAsBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+}
+
+type RunLogEntry = {
+  kind: 'phase' | 'stdout' | 'stderr';
+  text: string;
+};
+
+async function readEventStream(response: Response, onEvent: (event: ExampleStreamEvent) => void) {
+  if (!response.body) throw new Error('Response did not include a stream body.');
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = frame
+        .split('\n')
+        .filter((line) => line.startsWith('data: '))
+        .map((line) => line.slice('data: '.length))
+        .join('\n');
+      if (data) onEvent(JSON.parse(data) as ExampleStreamEvent);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+function RunLog({ entries, running }: { entries: RunLogEntry[]; running: boolean }) {
+  return (
+    <div className="result-panel">
+      <h3>Live Log</h3>
+      <pre className="run-log">
+        {entries.map((entry, index) =>
+          entry.kind === 'phase' ? (
+            <span key={index} className="run-log-phase">{`▸ ${entry.text}\n`}</span>
+          ) : (
+            <span key={index} className={entry.kind === 'stderr' ? 'run-log-stderr' : undefined}>
+              {entry.text}
+            </span>
+          )
+        )}
+        {running ? <span className="run-log-phase">…</span> : null}
+      </pre>
+    </div>
+  );
+}
+
+function RichOutputs({ outputs }: { outputs: RichOutput[] }) {
+  return (
+    <div className="rich-outputs">
+      {outputs.map((output, index) => {
+        switch (output.kind) {
+          case 'text':
+            return <pre key={index}>{output.text}</pre>;
+          case 'image':
+            return (
+              <img
+                key={index}
+                className="analysis-chart"
+                src={`data:${output.mimeType};base64,${output.data}`}
+                alt="Execution result"
+              />
+            );
+          case 'svg':
+            // As an <img>, the SVG cannot run scripts or touch the page.
+            return (
+              <img
+                key={index}
+                className="analysis-chart"
+                src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(output.svg)}`}
+                alt="Execution result"
+              />
+            );
+          case 'html':
+            return (
+              <iframe
+                key={index}
+                className="rich-output-html"
+                sandbox=""
+                srcDoc={output.html}
+                title={`HTML result ${index + 1}`}
+              />
+            );
+          case 'json':
+            return <pre key={index}>{JSON.stringify(output.value, null, 2)}</pre>;
+          case 'table':
+            return (
+              <div key={index} className="rich-output-table">
+                <table className="test-case-table">
+                  <thead>
+                    <tr>
+                      {output.columns.map((column, columnIndex) => (
+                        <th key={columnIndex}>{column}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {output.rows.map((row, rowIndex) => (
+                      <tr key={rowIndex}>
+                        {row.map((cell, cellIndex) => (
+                          <td key={cellIndex}>{cell}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {output.truncated ? <p className="field-note">Showing the first {output.rows.length} rows.</p> : null}
+              </div>
+            );
+        }
+      })}
+    </div>
+  );
+}
+
+function ArtifactList({ artifacts }: { artifacts: ArtifactInfo[] }) {
+  return (
+    <div className="artifact-list">
+      <p>Files written by this run:</p>
+      {artifacts.map((artifact) => (
+        <div key={artifact.path} className="artifact-row">
+          {artifact.contentType.startsWith('image/') ? (
+            <img className="analysis-chart" src={artifact.url} alt={artifact.name} />
+          ) : null}
+          <div className="preview-row">
+            <span>
+              <code>{artifact.path}</code> ({artifact.change}, {formatBytes(artifact.bytes)})
+            </span>
+            <a href={`${artifact.url}?download=1`} download={artifact.name}>
+              Download
+            </a>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function StaticAnalysisPanel({ analysis }: { analysis: StaticAnalysisReport }) {
+  return (
+    <div className="analysis-report">
+      <p>
+        Static analysis: <code>{analysis.policy}</code> · {analysis.findings.length} finding
+        {analysis.findings.length === 1 ? '' : 's'}, {analysis.rewrites} rewritten
+        {analysis.blocked ? ' · blocked before execution' : ''}
+      </p>
+      {analysis.syntaxError ? <p className="field-note">Could not parse: {analysis.syntaxError}</p> : null}
+      {analysis.findings.length > 0 ? (
+        <table className="network-table">
+          <thead>
+            <tr>
+              <th>Line</th>
+              <th>Rule</th>
+              <th>Finding</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.findings.map((finding, index) => (
+              <tr key={`${finding.rule}-${finding.line}-${index}`} className={`analysis-${finding.severity}`}>
+                <td>
+                  {finding.line}:{finding.column}
+                </td>
+                <td>
+                  <code>{finding.rule}</code>
+                </td>
+                <td>
+                  {finding.message}
+                  {finding.rewritten ? ' (rewritten)' : ''}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+    </div>
+  );
+}
+
+function RepairAttempts({ attempts }: { attempts: RepairAttempt[] }) {
+  return (
+    <div className="repair-attempts">
+      <p>Self-repair loop:</p>
+      {attempts.map((attempt, index) => (
+        <details
+          key={attempt.attempt}
+          className={`repair-attempt ${attempt.ok ? '' : 'repair-attempt-failed'}`}
+          open={index === attempts.length - 1}
+        >
+          <summary>
+            {attempt.attempt === 0 ? 'Original script' : `Repair ${attempt.attempt}`} · exit code{' '}
+            <code>{attempt.exitCode}</code> · {attempt.ok ? 'passed' : 'failed'}
+          </summary>
+          <pre>{attempt.code}</pre>
+          {attempt.stderr ? <pre>{attempt.stderr}</pre> : null}
+        </details>
+      ))}
+    </div>
+  );
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function SandboxResetControl() {
+  const [resetting, setResetting] = useState(false);
+  const [message, setMessage] = useState<string | undefined>();
+
+  async function resetSandboxes() {
+    const confirmed = window.confirm(
+      'Reset all of your sandboxes? Workspace files, processes, previews, and terminals will be cleared.'
+    );
+    if (!confirmed) return;
+
+    setResetting(true);
+    setMessage(undefined);
+    try {
+      const response = await fetch('/api/sandboxes');
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      const data = (await response.json()) as { sandboxes: SandboxSummary[] };
+      // Resets the workspace and keeps the container, so the next run doesn't wait for a cold start.
+      for (const sandbox of data.sandboxes) {
+        const reset = await fetch(`/api/sandboxes/${encodeURIComponent(sandbox.id)}/reset`, { method: 'POST' });
+        if (!reset.ok) {
+          throw new Error(await reset.text());
+        }
+      }
+      setMessage('Your sandboxes were reset. The next run starts with an empty workspace.');
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setResetting(false);
+    }
+  }
+
+  return (
+    <div className="sandbox-controls">
+      <Button variant="secondary" onClick={resetSandboxes} loading={resetting}>
+        {resetting ? 'Resetting...' : 'Reset my sandbox'}
+      </Button>
+      {message ? <p>{message}</p> : null}
+    </div>
+  );
+}
+
 function WorkshopFrame({ children }: { children: React.ReactNode }) {
   const location = useLocation();
 
@@ -65,6 +392,9 @@ function WorkshopFrame({ children }: { children: React.ReactNode }) {
               </Link>
             ))}
           </nav>
+
+          <div className="nav-title nav-separator">My Sandbox</div>
+          <SandboxResetControl />
         </aside>
         <main>{children}</main>
       </div>
@@ -98,7 +428,8 @@ function ResultCard({
   previewUrl,
   output,
   stderr,
-  details
+  details,
+  showArtifacts = true
 }: {
   title: string;
   summary: string;
@@ -108,6 +439,9 @@ function ResultCard({
   output?: string;
   stderr?: string;
   details?: unknown;
+  // Off for runs opened from the facilitator dashboard: artifact URLs resolve against the viewer's
+  // own participant cookie, so they would show the facilitator's files.
+  showArtifacts?: boolean;
 }) {
   const detailRecord =
     details && typeof details === 'object' ? (details as Record<string, unknown>) : undefined;
@@ -115,16 +449,45 @@ function ResultCard({
     detailRecord && typeof detailRecord.generatedCode === 'string'
       ? detailRecord.generatedCode
       : undefined;
-  const chartDataUri =
-    detailRecord && typeof detailRecord.chartDataUri === 'string'
-      ? detailRecord.chartDataUri
-      : undefined;
   const chartGenerationMessage =
     detailRecord && typeof detailRecord.chartGenerationMessage === 'string'
       ? detailRecord.chartGenerationMessage
       : undefined;
-  const chartBytes =
-    detailRecord && typeof detailRecord.chartBytes === 'number' ? detailRecord.chartBytes : undefined;
+  const artifacts =
+    detailRecord && Array.isArray(detailRecord.artifacts) ? (detailRecord.artifacts as ArtifactInfo[]) : undefined;
+  const testCases =
+    detailRecord && Array.isArray(detailRecord.testCases) ? (detailRecord.testCases as CiTestCase[]) : undefined;
+  const previewSource =
+    detailRecord && typeof detailRecord.source === 'string' ? detailRecord.source : undefined;
+  const previewRevision =
+    detailRecord && typeof detailRecord.revision === 'string' ? detailRecord.revision : undefined;
+  const installLog =
+    detailRecord && typeof detailRecord.installLog === 'string' ? detailRecord.installLog : undefined;
+  const startLog =
+    detailRecord && typeof detailRecord.startLog === 'string' ? detailRecord.startLog : undefined;
+  const containment =
+    detailRecord && detailRecord.containment && typeof detailRecord.containment === 'object'
+      ? (detailRecord.containment as ResourceLimitReport)
+      : undefined;
+  const csvProfile =
+    detailRecord && detailRecord.csvStructure && typeof detailRecord.csvStructure === 'object'
+      ? (detailRecord.csvStructure as CsvProfile)
+      : undefined;
+  const richOutputs =
+    detailRecord && Array.isArray(detailRecord.outputs) ? (detailRecord.outputs as RichOutput[]) : undefined;
+  const analysis =
+    detailRecord && detailRecord.analysis && typeof detailRecord.analysis === 'object'
+      ? (detailRecord.analysis as StaticAnalysisReport)
+      : undefined;
+  const model = detailRecord && typeof detailRecord.model === 'string' ? detailRecord.model : undefined;
+  const aiProvider =
+    detailRecord && typeof detailRecord.aiProvider === 'string' ? detailRecord.aiProvider : undefined;
+  const repairAttempts =
+    detailRecord && Array.isArray(detailRecord.attempts) ? (detailRecord.attempts as RepairAttempt[]) : undefined;
+  const network =
+    detailRecord && detailRecord.network && typeof detailRecord.network === 'object'
+      ? (detailRecord.network as NetworkEgressReport)
+      : undefined;
   const directPreviewUrl =
     detailRecord && typeof detailRecord.directPreviewUrl === 'string'
       ? detailRecord.directPreviewUrl
@@ -168,16 +531,580 @@ function ResultCard({
       <p>
         Exit code: <code>{String(exitCode ?? 'n/a')}</code>
       </p>
+      {model ? (
+        <p>
+          Model: <code>{model}</code>
+          {aiProvider ? (
+            <>
+              {' '}
+              via <code>{aiProvider}</code>
+            </>
+          ) : null}
+        </p>
+      ) : null}
+      {analysis ? <StaticAnalysisPanel analysis={analysis} /> : null}
+      {containment ? (
+        <div className="containment-report">
+          <p>
+            Limit hit: <code>{containment.limitHit ?? 'none'}</code>
+            {containment.signal ? (
+              <>
+                {' '}
+                (signal <code>{containment.signal}</code>)
+              </>
+            ) : null}
+          </p>
+          <p>
+            Wall time: <code>{containment.wallTimeMs} ms</code> of {containment.limits.wallSeconds * 1000} ms · CPU
+            time: <code>{containment.cpuTimeMs} ms</code> of {containment.limits.cpuSeconds * 1000} ms
+          </p>
+          <p>
+            Peak memory: <code>{Math.round(containment.peakMemoryKb / 1024)} MB</code> of{' '}
+            {containment.limits.memoryMb} MB · Output: <code>{containment.outputBytes} bytes</code>
+            {containment.outputTruncated ? ' (truncated)' : ''} · Process limit: {containment.limits.maxProcesses}
+          </p>
+        </div>
+      ) : null}
+      {network ? (
+        <div className="network-report">
+          <p>
+            Network policy: <code>{network.policy.mode}</code>
+            {network.policy.mode === 'allowlist' ? (
+              <>
+                {' '}
+                (<code>{network.policy.allowlist.join(', ') || 'empty'}</code>)
+              </>
+            ) : null}{' '}
+            · {network.attempts.length} attempt{network.attempts.length === 1 ? '' : 's'}, {network.blocked} blocked
+          </p>
+          {network.policy.mode !== 'open' ? (
+            <p>
+              {network.enforcement === 'kernel'
+                ? 'Enforced by a kernel firewall on the sandboxed process, so other programs are held to the policy too.'
+                : 'Enforced inside the Python runtime only, not by the kernel. Starting other programs is refused, but native code can still get around it.'}
+            </p>
+          ) : null}
+          {network.attempts.length > 0 ? (
+            <table className="network-table">
+              <thead>
+                <tr>
+                  <th>Destination</th>
+                  <th>Stage</th>
+                  <th>Verdict</th>
+                </tr>
+              </thead>
+              <tbody>
+                {network.attempts.map((attempt, index) => (
+                  <tr
+                    key={`${attempt.host}-${attempt.port}-${index}`}
+                    className={attempt.allowed ? 'network-allowed' : 'network-blocked'}
+                  >
+                    <td>
+                      <code>
+                        {attempt.host}
+                        {attempt.port === null ? '' : `:${attempt.port}`}
+                      </code>
+                    </td>
+                    <td>{attempt.via}</td>
+                    <td>{attempt.allowed ? 'allowed' : 'blocked'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : null}
+        </div>
+      ) : null}
+      {previewSource ? (
+        <p>
+          Source: <code>{previewSource}</code>
+          {previewRevision ? (
+            <>
+              {' '}
+              at <code>{previewRevision}</code>
+            </>
+          ) : null}
+        </p>
+      ) : null}
+      {installLog ? (
+        <>
+          <p>Install log:</p>
+          <pre>{installLog}</pre>
+        </>
+      ) : null}
+      {startLog ? (
+        <>
+          <p>Start log:</p>
+          <pre>{startLog}</pre>
+        </>
+      ) : null}
+      {csvProfile ? (
+        <div className="rich-output-table">
+          <p>
+            Dataset profile: <code>{csvProfile.rows}</code> rows × <code>{csvProfile.columns.length}</code> columns
+          </p>
+          <table className="test-case-table">
+            <thead>
+              <tr>
+                <th>Column</th>
+                <th>Type</th>
+                <th>Nulls</th>
+                <th>Distinct</th>
+                <th>Range / top values</th>
+              </tr>
+            </thead>
+            <tbody>
+              {csvProfile.profile.map((column) => (
+                <tr key={column.name}>
+                  <td>{column.name}</td>
+                  <td>{column.dtype}</td>
+                  <td>{column.nullCount}</td>
+                  <td>{column.distinctCount}</td>
+                  <td>
+                    {column.min !== undefined
+                      ? `${column.min} – ${column.max}`
+                      : (column.topValues ?? []).map((entry) => `${entry.value} (${entry.count})`).join(', ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {csvProfile.warnings.map((warning) => (
+            <p key={warning} className="field-note">
+              {warning}
+            </p>
+          ))}
+        </div>
+      ) : null}
       {chartGenerationMessage ? <p>{chartGenerationMessage}</p> : null}
-      {typeof chartBytes === 'number' ? <p>Read with <code>readFile</code>: {chartBytes} bytes</p> : null}
+      {artifacts && artifacts.length > 0 ? (
+        showArtifacts ? (
+          <ArtifactList artifacts={artifacts} />
+        ) : (
+          <p>
+            {artifacts.length} file{artifacts.length === 1 ? '' : 's'} written by this run. Artifact links only open
+            from the participant&apos;s own browser.
+          </p>
+        )
+      ) : null}
+      {testCases && testCases.length > 0 ? (
+        <table className="test-case-table">
+          <thead>
+            <tr>
+              <th>Test</th>
+              <th>Status</th>
+              <th>Duration</th>
+            </tr>
+          </thead>
+          <tbody>
+            {testCases.map((testCase, index) => (
+              <tr key={`${testCase.name}-${index}`} className={`test-case-${testCase.status}`}>
+                <td>
+                  {testCase.name}
+                  {testCase.message ? <pre>{testCase.message}</pre> : null}
+                </td>
+                <td>{testCase.status}</td>
+                <td>{typeof testCase.durationMs === 'number' ? `${testCase.durationMs.toFixed(1)} ms` : 'n/a'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+      {repairAttempts && repairAttempts.length > 0 ? <RepairAttempts attempts={repairAttempts} /> : null}
       {generatedCode ? <pre>{generatedCode}</pre> : null}
-      {chartDataUri ? <img className="analysis-chart" src={chartDataUri} alt="Generated analysis chart" /> : null}
       {output ? <pre>{output}</pre> : null}
+      {richOutputs && richOutputs.length > 0 ? <RichOutputs outputs={richOutputs} /> : null}
       {stderr ? <pre>{stderr}</pre> : null}
     </div>
   );
 }
 
+function PreviewList() {
+  const [previews, setPreviews] = useState<PreviewInfo[]>([]);
+  const [error, setError] = useState<string | undefined>();
+  const [busyName, setBusyName] = useState<string | undefined>();
+
+  async function loadPreviews(init?: RequestInit, path = '/api/previews') {
+    try {
+      const response = await fetch(path, init);
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      const data = (await response.json()) as { previews: PreviewInfo[] };
+      setPreviews(data.previews);
+      setError(undefined);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    }
+  }
+
+  async function unexpose(name: string) {
+    setBusyName(name);
+    await loadPreviews({ method: 'DELETE' }, `/api/previews/${encodeURIComponent(name)}`);
+    setBusyName(undefined);
+  }
+
+  useEffect(() => {
+    void loadPreviews();
+  }, []);
+
+  return (
+    <div className="result-panel">
+      <h3>Active Previews</h3>
+      {error ? <pre className="error-panel">{error}</pre> : null}
+      {previews.length === 0 ? <p>No previews are exposed in your sandbox.</p> : null}
+      {previews.map((preview) => (
+        <div key={preview.name} className="preview-row">
+          <div>
+            <strong>{preview.name}</strong> on port <code>{preview.port}</code> ({preview.status})
+            <br />
+            <code>{preview.command}</code>
+            {preview.url ? (
+              <>
+                <br />
+                <a href={preview.url} target="_blank" rel="noreferrer">
+                  {preview.url}
+                </a>
+              </>
+            ) : null}
+          </div>
+          <Button variant="secondary" onClick={() => void unexpose(preview.name)} loading={busyName === preview.name}>
+            Unexpose
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RunHistorySidebar({
+  exampleId,
+  version,
+  running,
+  onOpen,
+  onRerun
+}: {
+  exampleId: string;
+  version: number;
+  running: boolean;
+  onOpen: (run: RunHistoryEntry) => void;
+  onRerun: (run: RunHistoryEntry) => void;
+}) {
+  const [runs, setRuns] = useState<RunHistorySummary[]>([]);
+  const [error, setError] = useState<string | undefined>();
+  const [busyId, setBusyId] = useState<string | undefined>();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/history?kind=example&target=${encodeURIComponent(exampleId)}`)
+      .then(async (response) => {
+        const data = (await response.json()) as { ok: boolean; message?: string; runs?: RunHistorySummary[] };
+        if (!response.ok || !data.runs) throw new Error(data.message ?? `History failed (${response.status})`);
+        if (!cancelled) {
+          setRuns(data.runs);
+          setError(undefined);
+        }
+      })
+      .catch((loadError: unknown) => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : String(loadError));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [exampleId, version]);
+
+  async function withRun(id: string, use: (run: RunHistoryEntry) => void) {
+    setBusyId(id);
+    try {
+      const response = await fetch(`/api/history/${encodeURIComponent(id)}`);
+      const data = (await response.json()) as { ok: boolean; message?: string; run?: RunHistoryEntry };
+      if (!response.ok || !data.run) throw new Error(data.message ?? `History failed (${response.status})`);
+      use(data.run);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    } finally {
+      setBusyId(undefined);
+    }
+  }
+
+  return (
+    <aside className="history-sidebar">
+      <h3>Run History</h3>
+      {error ? <pre className="error-panel">{error}</pre> : null}
+      {runs.length === 0 && !error ? <p>No runs yet. Each run of this exercise is saved here.</p> : null}
+      {runs.map((run) => (
+        <div key={run.id} className={run.ok ? 'history-run' : 'history-run history-run-failed'}>
+          <div>
+            <strong>{new Date(run.startedAt).toLocaleTimeString()}</strong> {run.ok ? 'ok' : 'failed'}
+            {run.exitCode !== undefined ? ` (exit ${run.exitCode})` : ''}, {(run.durationMs / 1000).toFixed(1)}s
+          </div>
+          <p>{run.summary}</p>
+          <div className="action-row">
+            <Button variant="secondary" onClick={() => void withRun(run.id, onOpen)} loading={busyId === run.id}>
+              Open
+            </Button>
+            <Button variant="secondary" onClick={() => void withRun(run.id, onRerun)} disabled={running}>
+              Re-run
+            </Button>
+          </div>
+        </div>
+      ))}
+    </aside>
+  );
+}
+
+const notebookLanguages: NotebookLanguage[] = ['python', 'javascript', 'typescript'];
+
+function NotebookPanel() {
+  const [contexts, setContexts] = useState<NotebookContextInfo[]>([]);
+  const [selected, setSelected] = useState<string | undefined>();
+  const [cellsByContext, setCellsByContext] = useState<Record<string, NotebookCellResult[]>>({});
+  const [newName, setNewName] = useState('notebook');
+  const [newLanguage, setNewLanguage] = useState<NotebookLanguage>('python');
+  const [cellCode, setCellCode] = useState('total = 0\ntotal += 42\ntotal');
+  const [busy, setBusy] = useState<string | undefined>();
+  const [error, setError] = useState<string | undefined>();
+  const cells = selected ? (cellsByContext[selected] ?? []) : [];
+  const selectedContext = contexts.find((context) => context.name === selected);
+
+  async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(path, init);
+    const data = (await response.json()) as T & { ok: boolean; message?: string };
+    if (!response.ok || !data.ok) {
+      throw new Error(data.message ?? `Request failed (${response.status})`);
+    }
+    return data;
+  }
+
+  async function perform(label: string, action: () => Promise<void>) {
+    setBusy(label);
+    try {
+      await action();
+      setError(undefined);
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+    } finally {
+      setBusy(undefined);
+    }
+  }
+
+  async function loadContexts() {
+    const data = await request<{ contexts: NotebookContextInfo[] }>('/api/contexts');
+    setContexts(data.contexts);
+    setSelected((current) =>
+      current && data.contexts.some((context) => context.name === current) ? current : data.contexts[0]?.name
+    );
+  }
+
+  function createContext() {
+    return perform('create', async () => {
+      const data = await request<{ context: NotebookContextInfo }>('/api/contexts', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name: newName, language: newLanguage })
+      });
+      await loadContexts();
+      setSelected(data.context.name);
+    });
+  }
+
+  function deleteContext(name: string) {
+    return perform(`delete-${name}`, async () => {
+      await request(`/api/contexts/${encodeURIComponent(name)}`, { method: 'DELETE' });
+      setCellsByContext(({ [name]: _removed, ...rest }) => rest);
+      await loadContexts();
+    });
+  }
+
+  function runCell() {
+    if (!selected) return;
+    return perform('run', async () => {
+      const data = await request<{ cell: NotebookCellResult }>(`/api/contexts/${encodeURIComponent(selected)}/run`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ code: cellCode })
+      });
+      setCellsByContext((current) => ({ ...current, [selected]: [...(current[selected] ?? []), data.cell] }));
+    });
+  }
+
+  useEffect(() => {
+    void perform('load', loadContexts);
+  }, []);
+
+  return (
+    <div className="result-panel notebook-panel">
+      <h3>Notebook Contexts</h3>
+      <p>Variables persist between cells that run in the same context.</p>
+      {error ? <pre className="error-panel">{error}</pre> : null}
+      <div className="limit-grid">
+        <Input label="Context Name" value={newName} onChange={(event) => setNewName(event.currentTarget.value)} />
+        <Select
+          label="Language"
+          value={newLanguage}
+          onValueChange={(value) => setNewLanguage(value as NotebookLanguage)}
+        >
+          {notebookLanguages.map((language) => (
+            <Select.Option key={language} value={language}>
+              {language}
+            </Select.Option>
+          ))}
+        </Select>
+      </div>
+      <div className="action-row">
+        <Button variant="secondary" onClick={() => void createContext()} loading={busy === 'create'}>
+          Create context
+        </Button>
+      </div>
+      {contexts.length === 0 ? <p>No notebook contexts yet.</p> : null}
+      {contexts.map((context) => (
+        <div key={context.name} className="preview-row">
+          <div>
+            <strong>{context.name}</strong> ({context.language}, {context.status}) · {context.cellCount} cell
+            {context.cellCount === 1 ? '' : 's'} run
+          </div>
+          <div className="action-row">
+            <Button
+              variant={context.name === selected ? 'primary' : 'secondary'}
+              onClick={() => setSelected(context.name)}
+            >
+              Open
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => void deleteContext(context.name)}
+              loading={busy === `delete-${context.name}`}
+            >
+              Delete
+            </Button>
+          </div>
+        </div>
+      ))}
+      {selectedContext ? (
+        <>
+          {cells.map((cell) => (
+            <div key={cell.cell} className={cell.ok ? 'notebook-cell' : 'notebook-cell notebook-cell-error'}>
+              <span className="notebook-cell-label">In [{cell.cell}]</span>
+              <pre>{cell.code}</pre>
+              {cell.output ? <pre>{cell.output}</pre> : null}
+              {cell.outputs.length > 0 ? <RichOutputs outputs={cell.outputs} /> : null}
+              {cell.stderr ? <pre className="run-log-stderr">{cell.stderr}</pre> : null}
+            </div>
+          ))}
+          <Textarea
+            label={`Next cell in ${selectedContext.name} (${selectedContext.language})`}
+            value={cellCode}
+            onChange={(event) => setCellCode(event.currentTarget.value)}
+            rows={6}
+          />
+          <div className="action-row">
+            <Button
+              variant="primary"
+              onClick={() => void runCell()}
+              loading={busy === 'run'}
+              disabled={selectedContext.status !== 'active'}
+            >
+              Run cell
+            </Button>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+// Only `code` spans are styled; the rest of a paragraph stays plain text, never HTML.
+function InlineText({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(`[^`]+`)/).map((part, index) =>
+        part.length > 2 && part.startsWith('`') && part.endsWith('`') ? (
+          <code key={index}>{part.slice(1, -1)}</code>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+function RunnableBlock({ block, runPath }: { block: Extract<ContentBlock, { type: 'runnable' }>; runPath: string }) {
+  const [state, setState] = useState<RunnerState<ContentBlockRunResult>>({ loading: false });
+
+  async function runBlock() {
+    setState({ loading: true });
+    try {
+      const response = await fetch(`${runPath}/${block.id}`, { method: 'POST' });
+      const data = (await response.json()) as ContentBlockRunResult & { message?: string };
+      if (!response.ok) throw new Error(data.message ?? `Run failed (${response.status})`);
+      setState({ loading: false, data });
+    } catch (error) {
+      setState({ loading: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return (
+    <div className="content-runnable">
+      <pre>{block.code}</pre>
+      <Button variant="secondary" onClick={() => void runBlock()} loading={state.loading}>
+        Run in sandbox
+      </Button>
+      {state.error ? <pre className="error-panel">{state.error}</pre> : null}
+      {state.data ? (
+        <div className="result-panel">
+          <Badge variant={state.data.ok ? 'success' : 'error'}>exit {state.data.exitCode}</Badge>
+          {state.data.output ? <pre>{state.data.output}</pre> : null}
+          {state.data.stderr ? <pre className="run-log-stderr">{state.data.stderr}</pre> : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+// Renders a session's or example's compiled Markdown; runPath is where its runnable blocks are posted.
+function ContentBody({ blocks, runPath }: { blocks: ContentBlock[]; runPath: string }) {
+  if (blocks.length === 0) return null;
+
+  return (
+    <div className="content-body">
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return block.level <= 2 ? (
+              <h3 key={index}>
+                <InlineText text={block.text} />
+              </h3>
+            ) : (
+              <h4 key={index}>
+                <InlineText text={block.text} />
+              </h4>
+            );
+          case 'paragraph':
+            return (
+              <p key={index}>
+                <InlineText text={block.text} />
+              </p>
+            );
+          case 'list':
+            return (
+              <ul key={index}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={`${itemIndex}-${item}`}>
+                    <InlineText text={item} />
+                  </li>
+                ))}
+              </ul>
+            );
+          case 'code':
+            return <pre key={index}>{block.code}</pre>;
+          case 'runnable':
+            return <RunnableBlock key={block.id} block={block} runPath={runPath} />;
+        }
+      })}
+    </div>
+  );
+}
+
 function SessionPage({ session }: { session: SessionDefinition }) {
   const [state, setState] = useState<RunnerState<SessionRunResult>>({ loading: false });
 
@@ -203,6 +1130,8 @@ function SessionPage({ session }: { session: SessionDefinition }) {
         <p>{session.focus}</p>
       </div>
 
+      <ContentBody blocks={session.body} runPath={`/api/sessions/${session.id}/blocks`} />
+
       <p className="exercise-prompt">Demo: {session.demo}</p>
       <p className="exercise-prompt">Hands-on: {session.handsOn}</p>
       {session.useCases && session.useCases.length > 0 ? (
@@ -245,42 +1174,170 @@ function SessionPage({ session }: { session: SessionDefinition }) {
   );
 }
 
-function ExamplePage({ example }: { example: ExampleDefinition }) {
-  const [input, setInput] = useState(example.defaultInput);
-  const [prompt, setPrompt] = useState('Transform this text and show simple statistics.');
-  const [analysisQuestion, setAnalysisQuestion] = useState(
-    'Which region has the best revenue per user, and can you visualize it?'
+function NetworkPolicyField({
+  label,
+  value,
+  onChange
+}: {
+  label: string;
+  value: NetworkPolicy;
+  onChange: (policy: NetworkPolicy) => void;
+}) {
+  // Kept as typed so a trailing comma doesn't vanish mid-edit.
+  const [allowlist, setAllowlist] = useState(value.allowlist.join(', '));
+
+  function updateAllowlist(text: string) {
+    setAllowlist(text);
+    onChange({
+      ...value,
+      allowlist: text
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    });
+  }
+
+  return (
+    <div className="limit-grid">
+      <Select
+        label={label}
+        value={value.mode}
+        onValueChange={(mode) => onChange({ ...value, mode: mode as NetworkPolicyMode })}
+      >
+        {networkPolicyModes.map((mode) => (
+          <Select.Option key={mode} value={mode}>
+            {mode}
+          </Select.Option>
+        ))}
+      </Select>
+      <Input
+        label="Allowlist (host or host:port, comma-separated)"
+        value={allowlist}
+        disabled={value.mode !== 'allowlist'}
+        onChange={(event) => updateAllowlist(event.currentTarget.value)}
+      />
+    </div>
   );
-  const [generatedCode, setGeneratedCode] = useState(example.defaultInput);
+}
+
+function ResourceLimitsField({
+  value,
+  onChange
+}: {
+  value: ResourceLimits;
+  onChange: (limits: ResourceLimits) => void;
+}) {
+  return (
+    <div className="limit-grid">
+      {resourceLimitFields.map((field) => (
+        <Input
+          key={field.key}
+          label={field.label}
+          type="number"
+          min={1}
+          value={String(value[field.key])}
+          onChange={(event) => onChange({ ...value, [field.key]: Number(event.currentTarget.value) })}
+        />
+      ))}
+    </div>
+  );
+}
+
+function initialFieldValues(example: ExampleDefinition): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const field of example.fields) {
+    switch (field.kind) {
+      case 'text':
+      case 'textarea':
+        values[field.name] = field.defaultValue ?? '';
+        break;
+      case 'code':
+        values[field.name] = example.defaultInput;
+        break;
+      case 'select':
+        values[field.name] = field.defaultValue;
+        break;
+      case 'language':
+        values[field.name] = example.languages?.[0]?.id ?? 'python';
+        break;
+      case 'network':
+        values[field.name] = defaultNetworkPolicy;
+        break;
+      case 'limits':
+        values[field.name] = defaultResourceLimits;
+        break;
+    }
+  }
+  return values;
+}
+
+function ExamplePage({ example }: { example: ExampleDefinition }) {
+  const [values, setValues] = useState(() => initialFieldValues(example));
+  // File and dataset fields keep what was picked here; only the sendable part goes in the payload.
+  const [uploads, setUploads] = useState<Record<string, UploadedFile>>({});
+  const [datasets, setDatasets] = useState<Record<string, DatasetInfo>>({});
+  const [uploadingField, setUploadingField] = useState<string | undefined>();
   const [state, setState] = useState<RunnerState<ExampleRunResult>>({ loading: false });
+  const [runLog, setRunLog] = useState<RunLogEntry[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
   const [generating, setGenerating] = useState(false);
-  const isAiGeneratedCode = example.id === 'ai-generated-code';
-  const isDataAnalysis = example.id === 'data-analysis';
+  const [terminalOpen, setTerminalOpen] = useState(false);
+  const languageLabel = example.languages?.find((option) => option.id === values.language)?.label ?? 'Python';
+  const visibleFields = example.fields.filter((field) => fieldIsVisible(field, values));
 
   useEffect(() => {
-    setInput(example.defaultInput);
-    setGeneratedCode(example.defaultInput);
-  }, [example.defaultInput, example.id]);
+    setValues(initialFieldValues(example));
+    setUploads({});
+    setDatasets({});
+    setTerminalOpen(false);
+  }, [example]);
+
+  function setField(name: string, value: unknown) {
+    setValues((current) => ({ ...current, [name]: value }));
+  }
+
+  function withLanguage(label: string): string {
+    return label.replace('{language}', languageLabel);
+  }
+
+  function selectLanguage(field: Extract<ExampleField, { kind: 'language' }>, next: CodeLanguage) {
+    const option = example.languages?.find((candidate) => candidate.id === next);
+    setValues((current) => ({
+      ...current,
+      [field.name]: next,
+      ...(option ? { [field.codeField]: option.defaultInput } : {})
+    }));
+  }
+
+  function buildPayload(): Record<string, unknown> {
+    const payload: Record<string, unknown> = {};
+    for (const field of visibleFields) {
+      if (field.kind === 'note') continue;
+      const value =
+        field.kind === 'file'
+          ? uploads[field.name]?.base64
+          : field.kind === 'dataset'
+            ? datasets[field.name]?.name
+            : values[field.name];
+      if (value !== undefined) payload[field.name] = value;
+    }
+    return payload;
+  }
 
-  async function runExample() {
+  // Re-runs from history pass the stored request body instead of the current form state.
+  async function runExample(storedPayload?: Record<string, unknown>) {
     setState({ loading: true });
+    setRunLog([]);
 
     try {
-      const endpoint = `/api/examples/${example.id}`;
-      const payloadInput = isAiGeneratedCode ? generatedCode : input;
-      const payload =
-        isAiGeneratedCode
-          ? { input: payloadInput }
-          : isDataAnalysis
-            ? { input: payloadInput, prompt: analysisQuestion }
-            : { input: payloadInput };
+      const endpoint = `/api/examples/${example.id}?stream=1`;
       const response =
         example.method === 'GET'
           ? await fetch(endpoint)
           : await fetch(endpoint, {
               method: 'POST',
               headers: { 'content-type': 'application/json' },
-              body: JSON.stringify(payload)
+              body: JSON.stringify(storedPayload ?? buildPayload())
             });
 
       if (!response.ok) {
@@ -288,21 +1345,88 @@ function ExamplePage({ example }: { example: ExampleDefinition }) {
         throw new Error(body || `Request failed (${response.status})`);
       }
 
-      const data = (await response.json()) as ExampleRunResult;
+      let data: ExampleRunResult | undefined;
+      let streamError: string | undefined;
+      await readEventStream(response, (event) => {
+        switch (event.type) {
+          case 'phase':
+            setRunLog((entries) => [...entries, { kind: 'phase', text: event.label }]);
+            break;
+          case 'output':
+            setRunLog((entries) => [...entries, { kind: event.stream, text: event.data }]);
+            break;
+          case 'result':
+            data = event.result;
+            break;
+          case 'error':
+            streamError = event.message;
+            break;
+        }
+      });
+
+      if (streamError) throw new Error(streamError);
+      if (!data) throw new Error('Run stream ended without a result.');
       setState({ loading: false, data });
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       setState({ loading: false, error: message });
+    } finally {
+      setHistoryVersion((version) => version + 1);
     }
   }
 
-  async function generatePython() {
+  // Puts a stored attempt's inputs back in the form, so it can be tweaked and run again.
+  // Uploads aren't kept in history, so file and dataset fields stay as they are.
+  function openHistoryRun(run: RunHistoryEntry) {
+    const request = run.request ?? {};
+    const restored: Record<string, unknown> = {};
+    for (const field of example.fields) {
+      if (field.kind === 'note' || field.kind === 'file' || field.kind === 'dataset') continue;
+      if (field.name in request) restored[field.name] = request[field.name];
+    }
+    setValues((current) => ({ ...current, ...restored }));
+    setRunLog([]);
+    setState({ loading: false, data: run.result as ExampleRunResult });
+  }
+
+  async function selectUpload(name: string, file: File | undefined) {
+    const upload = file ? { name: file.name, base64: await readFileAsBase64(file) } : undefined;
+    setUploads(({ [name]: _previous, ...rest }) => (upload ? { ...rest, [name]: upload } : rest));
+  }
+
+  async function uploadDataset(name: string, file: File | undefined) {
+    if (!file) return;
+
+    setUploadingField(name);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      const response = await fetch(`/api/examples/${example.id}/upload`, { method: 'POST', body: form });
+      const data = (await response.json()) as { ok: boolean; message?: string; dataset?: DatasetInfo };
+      if (!response.ok || !data.dataset) {
+        throw new Error(data.message ?? `Upload failed (${response.status})`);
+      }
+      const dataset = data.dataset;
+      setDatasets((current) => ({ ...current, [name]: dataset }));
+    } catch (error) {
+      setState({
+        loading: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      setUploadingField(undefined);
+    }
+  }
+
+  async function generateCode(field: Extract<ExampleField, { kind: 'code' }>) {
+    if (!field.generateFrom) return;
+
     setGenerating(true);
     try {
-      const response = await fetch('/api/examples/ai-generated-code/generate', {
+      const response = await fetch(`/api/examples/${example.id}/generate`, {
         method: 'POST',
         headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({ prompt })
+        body: JSON.stringify({ prompt: values[field.generateFrom], language: values.language, model: values.model })
       });
 
       if (!response.ok) {
@@ -310,7 +1434,7 @@ function ExamplePage({ example }: { example: ExampleDefinition }) {
       }
 
       const data = (await response.json()) as { ok: boolean; code: string };
-      setGeneratedCode(data.code);
+      setField(field.name, data.code);
     } catch (error) {
       setState({
         loading: false,
@@ -321,6 +1445,135 @@ function ExamplePage({ example }: { example: ExampleDefinition }) {
     }
   }
 
+  function renderField(field: ExampleField) {
+    switch (field.kind) {
+      case 'note':
+        return <p className="field-note">{field.text}</p>;
+      case 'text':
+        return (
+          <Input
+            label={withLanguage(field.label)}
+            value={String(values[field.name] ?? '')}
+            placeholder={field.placeholder}
+            onChange={(event) => setField(field.name, event.currentTarget.value)}
+          />
+        );
+      case 'textarea':
+        return (
+          <Textarea
+            label={withLanguage(field.label)}
+            value={String(values[field.name] ?? '')}
+            onChange={(event) => setField(field.name, event.currentTarget.value)}
+            rows={field.rows ?? 4}
+          />
+        );
+      case 'code':
+        return (
+          <>
+            {field.generateFrom ? (
+              <div className="action-row">
+                <Button variant="secondary" onClick={() => void generateCode(field)} loading={generating}>
+                  {generating ? 'Generating...' : `Generate ${languageLabel}`}
+                </Button>
+              </div>
+            ) : null}
+            <Textarea
+              label={withLanguage(field.label)}
+              value={String(values[field.name] ?? '')}
+              onChange={(event) => setField(field.name, event.currentTarget.value)}
+              rows={field.rows ?? 10}
+            />
+          </>
+        );
+      // Options may be numbers, so map the select's string back to the option's own value.
+      case 'select':
+        return (
+          <Select
+            label={withLanguage(field.label)}
+            value={String(values[field.name])}
+            onValueChange={(value) =>
+              setField(field.name, field.options.find((option) => String(option.value) === value)?.value)
+            }
+          >
+            {field.options.map((option) => (
+              <Select.Option key={String(option.value)} value={String(option.value)}>
+                {option.label}
+              </Select.Option>
+            ))}
+          </Select>
+        );
+      case 'language':
+        return example.languages ? (
+          <Select
+            label={field.label}
+            value={String(values[field.name])}
+            onValueChange={(value) => selectLanguage(field, value as CodeLanguage)}
+          >
+            {example.languages.map((option) => (
+              <Select.Option key={option.id} value={option.id}>
+                {option.label}
+              </Select.Option>
+            ))}
+          </Select>
+        ) : null;
+      case 'file': {
+        const upload = uploads[field.name];
+        return (
+          <label className="file-field">
+            <span>{field.label}</span>
+            <input
+              type="file"
+              accept={field.accept}
+              onChange={(event) => void selectUpload(field.name, event.currentTarget.files?.[0])}
+            />
+            {upload ? <code>{upload.name}</code> : null}
+          </label>
+        );
+      }
+      case 'dataset': {
+        const dataset = datasets[field.name];
+        return (
+          <label className="file-field">
+            <span>{field.label}</span>
+            <input
+              type="file"
+              accept={field.accept}
+              disabled={uploadingField === field.name}
+              onChange={(event) => void uploadDataset(field.name, event.currentTarget.files?.[0])}
+            />
+            {uploadingField === field.name ? <span>Uploading…</span> : null}
+            {dataset ? (
+              <span>
+                Using <code>{dataset.path}</code> ({dataset.format}, {Math.ceil(dataset.bytes / 1024)} KB){' '}
+                <Button
+                  variant="secondary"
+                  onClick={() => setDatasets(({ [field.name]: _removed, ...rest }) => rest)}
+                >
+                  Use pasted CSV
+                </Button>
+              </span>
+            ) : null}
+          </label>
+        );
+      }
+      case 'network':
+        return (
+          <NetworkPolicyField
+            label={field.label}
+            value={values[field.name] as NetworkPolicy}
+            onChange={(policy) => setField(field.name, policy)}
+          />
+        );
+      case 'limits':
+        return (
+          <ResourceLimitsField
+            value={values[field.name] as ResourceLimits}
+            onChange={(limits) => setField(field.name, limits)}
+          />
+        );
+    }
+  }
+
   return (
     <Surface as="section" className="exercise-panel">
       <div className="exercise-header">
@@ -328,6 +1581,16 @@ function ExamplePage({ example }: { example: ExampleDefinition }) {
         <p>{example.workshopGoal}</p>
       </div>
 
+      <RunHistorySidebar
+        exampleId={example.id}
+        version={historyVersion}
+        running={state.loading}
+        onOpen={openHistoryRun}
+        onRerun={(run) => void runExample(run.request ?? {})}
+      />
+
+      <ContentBody blocks={example.body} runPath={`/api/examples/${example.id}/blocks`} />
+
       <p className="exercise-prompt">{example.prompt}</p>
 
       <div className="controls">
@@ -337,53 +1600,33 @@ function ExamplePage({ example }: { example: ExampleDefinition }) {
           readOnly
           aria-label="Example API route"
         />
-        {isAiGeneratedCode ? (
-          <>
-            <Textarea
-              label="User Prompt"
-              value={prompt}
-              onChange={(event) => setPrompt(event.currentTarget.value)}
-              rows={4}
-            />
-            <div className="action-row">
-              <Button variant="secondary" onClick={generatePython} loading={generating}>
-                {generating ? 'Generating...' : 'Generate Python'}
-              </Button>
-            </div>
-            <Textarea
-              label="Generated Python (editable)"
-              value={generatedCode}
-              onChange={(event) => setGeneratedCode(event.currentTarget.value)}
-              rows={12}
-            />
-          </>
-        ) : null}
-        {example.method === 'POST' && !isAiGeneratedCode ? (
-          <>
-            {isDataAnalysis ? (
-              <Textarea
-                label="Analysis Question"
-                value={analysisQuestion}
-                onChange={(event) => setAnalysisQuestion(event.currentTarget.value)}
-                rows={3}
-              />
-            ) : null}
-            <Textarea
-              label="Sandbox Input"
-              value={input}
-              onChange={(event) => setInput(event.currentTarget.value)}
-              rows={10}
-            />
-          </>
-        ) : null}
+        {visibleFields.map((field, index) => (
+          <Fragment key={field.kind === 'note' ? `note-${index}` : field.name}>{renderField(field)}</Fragment>
+        ))}
       </div>
 
       <div className="action-row">
-        <Button variant="primary" onClick={runExample} loading={state.loading}>
+        <Button variant="primary" onClick={() => void runExample()} loading={state.loading}>
           {state.loading ? 'Running in sandbox...' : 'Run exercise'}
         </Button>
+        <Button variant="secondary" onClick={() => setTerminalOpen((open) => !open)}>
+          {terminalOpen ? 'Hide terminal' : 'Open terminal in this sandbox'}
+        </Button>
       </div>
 
+      {terminalOpen ? (
+        <Suspense fallback={<div className="result-panel">Loading terminal...</div>}>
+          <TerminalLab key={example.id} initialScope={example.id} />
+        </Suspense>
+      ) : null}
+
+      {state.loading || runLog.length > 0 ? <RunLog entries={runLog} running={state.loading} /> : null}
+
+      {/* Remounts after each run so the list reflects the latest exposure. */}
+      {example.panels?.includes('previews') && !state.loading ? <PreviewList /> : null}
+
+      {example.panels?.includes('notebook') ? <NotebookPanel /> : null}
+
       {state.error ? <pre className="error-panel">{state.error}</pre> : null}
 
       {state.data ? (
@@ -402,6 +1645,287 @@ function ExamplePage({ example }: { example: ExampleDefinition }) {
   );
 }
 
+const FACILITATOR_TOKEN_KEY = 'workshop-facilitator-token';
+const FACILITATOR_REFRESH_MS = 10_000;
+
+function FacilitatorPage() {
+  const [token, setToken] = useState(() => window.sessionStorage.getItem(FACILITATOR_TOKEN_KEY) ?? '');
+  const [overview, setOverview] = useState<FacilitatorOverview | undefined>();
+  const [openedRun, setOpenedRun] = useState<{ participantId: string; run: RunHistoryEntry } | undefined>();
+  const [inspections, setInspections] = useState<Record<string, SandboxInspection>>({});
+  const [busy, setBusy] = useState<string | undefined>();
+  const [error, setError] = useState<string | undefined>();
+  const connected = overview !== undefined;
+
+  async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(path, {
+      ...init,
+      headers: token ? { authorization: `Bearer ${token}` } : undefined
+    });
+    const data = (await response.json()) as T & { ok: boolean; message?: string };
+    if (!response.ok || !data.ok) {
+      throw new Error(data.message ?? `Request failed (${response.status})`);
+    }
+    return data;
+  }
+
+  async function perform(label: string, action: () => Promise<void>) {
+    setBusy(label);
+    try {
+      await action();
+      setError(undefined);
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+    } finally {
+      setBusy(undefined);
+    }
+  }
+
+  async function loadOverview() {
+    const data = await request<{ overview: FacilitatorOverview }>('/api/facilitator');
+    setOverview(data.overview);
+  }
+
+  function connect() {
+    window.sessionStorage.setItem(FACILITATOR_TOKEN_KEY, token);
+    return perform('connect', loadOverview);
+  }
+
+  function openRun(run: FacilitatorRun) {
+    return perform(`open-${run.id}`, async () => {
+      const data = await request<{ run: RunHistoryEntry }>(
+        `/api/facilitator/participants/${run.participantId}/runs/${encodeURIComponent(run.id)}`
+      );
+      setOpenedRun({ participantId: run.participantId, run: data.run });
+    });
+  }
+
+  function inspectSandbox(participantId: string, sandbox: SandboxSummary, action?: 'reset') {
+    return perform(`${action ?? 'inspect'}-${sandbox.id}`, async () => {
+      const data = await request<{ sandbox: SandboxInspection }>(
+        `/api/facilitator/participants/${participantId}/sandboxes/${sandbox.scope}${action ? `/${action}` : ''}`,
+        action ? { method: 'POST' } : undefined
+      );
+      setInspections((current) => ({ ...current, [sandbox.id]: data.sandbox }));
+    });
+  }
+
+  function resetSandbox(participantId: string, sandbox: SandboxSummary) {
+    if (!window.confirm(`Reset ${sandbox.id}? The participant loses its files, processes, and previews.`)) return;
+    return inspectSandbox(participantId, sandbox, 'reset');
+  }
+
+  useEffect(() => {
+    void perform('connect', loadOverview);
+  }, []);
+
+  // Keeps polling once connected, so the room view stays current during exercises.
+  useEffect(() => {
+    if (!connected) return;
+    const timer = window.setInterval(() => {
+      loadOverview().catch((refreshError: unknown) =>
+        setError(refreshError instanceof Error ? refreshError.message : String(refreshError))
+      );
+    }, FACILITATOR_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [connected, token]);
+
+  return (
+    <Surface as="section" className="exercise-panel">
+      <div className="exercise-header">
+        <h2>Facilitator Dashboard</h2>
+        <p>Every participant&apos;s latest runs and sandboxes, refreshed every {FACILITATOR_REFRESH_MS / 1000}s.</p>
+      </div>
+
+      <div className="controls">
+        <Input
+          label="Facilitator Token"
+          type="password"
+          value={token}
+          onChange={(event) => setToken(event.currentTarget.value)}
+        />
+      </div>
+      <div className="action-row">
+        <Button variant="primary" onClick={() => void connect()} loading={busy === 'connect'}>
+          {connected ? 'Refresh' : 'Connect'}
+        </Button>
+      </div>
+
+      {error ? <pre className="error-panel">{error}</pre> : null}
+
+      {overview ? (
+        <>
+          <div className="result-panel">
+            <h3>Recent Failures</h3>
+            {overview.recentFailures.length === 0 ? <p>No failed runs yet.</p> : null}
+            {overview.recentFailures.length > 0 ? (
+              <table className="network-table">
+                <thead>
+                  <tr>
+                    <th>When</th>
+                    <th>Participant</th>
+                    <th>Run</th>
+                    <th>Error</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {overview.recentFailures.map((run) => (
+                    <tr key={run.id} className="analysis-danger">
+                      <td>{new Date(run.startedAt).toLocaleTimeString()}</td>
+                      <td>
+                        <code>{run.participantId}</code>
+                      </td>
+                      <td>
+                        {run.targetId}
+                        {run.exitCode !== undefined ? ` (exit ${run.exitCode})` : ''}
+                      </td>
+                      <td>{run.summary}</td>
+                      <td>
+                        <Button
+                          variant="secondary"
+                          onClick={() => void openRun(run)}
+                          loading={busy === `open-${run.id}`}
+                        >
+                          Open
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : null}
+          </div>
+
+          <div className="result-panel">
+            <h3>Participants ({overview.participants.length})</h3>
+            {overview.participants.length === 0 ? <p>Nobody has run anything yet.</p> : null}
+            {overview.participants.map((participant) => (
+              <div key={participant.id} className="facilitator-participant">
+                <p>
+                  <strong>
+                    <code>{participant.id}</code>
+                  </strong>{' '}
+                  · last run {new Date(participant.lastSeenAt).toLocaleTimeString()} · {participant.runs} runs,{' '}
+                  {participant.failures} failed
+                </p>
+                <table className="network-table">
+                  <tbody>
+                    {participant.latest.map((run) => (
+                      <tr key={run.id} className={run.ok ? undefined : 'analysis-danger'}>
+                        <td>
+                          {run.kind} <code>{run.targetId}</code>
+                        </td>
+                        <td>
+                          {run.ok ? 'ok' : 'failed'}
+                          {run.exitCode !== undefined ? ` (exit ${run.exitCode})` : ''}
+                        </td>
+                        <td>{(run.durationMs / 1000).toFixed(1)}s</td>
+                        <td>{run.summary}</td>
+                        <td>
+                          <Button
+                            variant="secondary"
+                            onClick={() => void openRun(run)}
+                            loading={busy === `open-${run.id}`}
+                          >
+                            Open
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <details>
+                  <summary>Sandboxes</summary>
+                  {participant.sandboxes.map((sandbox) => {
+                    const inspection = inspections[sandbox.id];
+                    return (
+                      <div key={sandbox.id} className="preview-row">
+                        <div>
+                          <code>{sandbox.scope}</code>
+                          {sandbox.lastUsedAt
+                            ? ` · last used ${new Date(sandbox.lastUsedAt).toLocaleTimeString()}`
+                            : ''}
+                          {inspection
+                            ? ` · ${inspection.processes.length} processes, ${inspection.exposedPorts.length} ports, ${
+                                inspection.workspaceBytes !== undefined
+                                  ? formatBytes(inspection.workspaceBytes)
+                                  : 'unknown size'
+                              }`
+                            : ''}
+                        </div>
+                        <div className="action-row">
+                          <Button
+                            variant="secondary"
+                            onClick={() => void inspectSandbox(participant.id, sandbox)}
+                            loading={busy === `inspect-${sandbox.id}`}
+                          >
+                            Inspect
+                          </Button>
+                          <Button
+                            variant="secondary"
+                            onClick={() => void resetSandbox(participant.id, sandbox)}
+                            loading={busy === `reset-${sandbox.id}`}
+                          >
+                            Reset
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </details>
+                <details>
+                  <summary>Terminal recordings</summary>
+                  <Suspense fallback={<p>Loading recordings...</p>}>
+                    <TerminalRecordingList
+                      listPath={`/api/facilitator/participants/${participant.id}/recordings`}
+                      castPath={(id) =>
+                        `/api/facilitator/participants/${participant.id}/recordings/${encodeURIComponent(id)}`
+                      }
+                      headers={token ? { authorization: `Bearer ${token}` } : undefined}
+                    />
+                  </Suspense>
+                </details>
+              </div>
+            ))}
+          </div>
+        </>
+      ) : null}
+
+      {openedRun ? (
+        <ResultCard
+          title={`Result from participant ${openedRun.participantId} (${openedRun.run.targetId})`}
+          summary={openedRun.run.result.summary}
+          sandboxId={openedRun.run.result.sandboxId}
+          exitCode={openedRun.run.result.exitCode}
+          previewUrl={openedRun.run.result.previewUrl}
+          output={openedRun.run.result.output}
+          stderr={openedRun.run.result.stderr}
+          details={openedRun.run.result.details}
+          showArtifacts={false}
+        />
+      ) : null}
+    </Surface>
+  );
+}
+
+// Opened from a presenter's spectate link; anyone with the link can watch, nobody can type.
+function SpectatePage() {
+  const { broadcastId = '' } = useParams();
+
+  return (
+    <Surface as="section" className="exercise-panel">
+      <div className="exercise-header">
+        <h2>Shared Terminal</h2>
+        <p>A read-only view of the presenter&apos;s terminal. Output appears here as they type.</p>
+      </div>
+      <Suspense fallback={<div className="result-panel">Loading terminal...</div>}>
+        <TerminalSpectator key={broadcastId} broadcastId={broadcastId} />
+      </Suspense>
+    </Surface>
+  );
+}
+
 export function App() {
   return (
     <WorkshopFrame>
@@ -413,6 +1937,8 @@ export function App() {
         {examples.map((example) => (
           <Route key={example.id} path={example.slug} element={<ExamplePage example={example} />} />
         ))}
+        <Route path="/facilitator" element={<FacilitatorPage />} />
+        <Route path="/spectate/:broadcastId" element={<SpectatePage />} />
         <Route path="*" element={<Navigate to={sessions[0].slug} replace />} />
       </Routes>
     </WorkshopFrame>
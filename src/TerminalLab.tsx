@@ -1,89 +1,614 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import '@xterm/xterm/css/xterm.css';
 import { SandboxAddon } from '@cloudflare/sandbox/xterm';
 import { Terminal } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
-import type { TerminalBootstrapResult } from './types';
+import { Button } from '@cloudflare/kumo/components/button';
+import { Input } from '@cloudflare/kumo/components/input';
+import { Select } from '@cloudflare/kumo/components/select';
+import type { SandboxSummary, TerminalBroadcastStatus, TerminalInfo, TerminalRecordingSummary } from './types';
 
-export function TerminalLab() {
-  const rootRef = useRef<HTMLDivElement | null>(null);
-  const [state, setState] = useState('disconnected');
+const BROADCAST_REFRESH_MS = 5000;
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8];
+// Like asciinema's idle_time_limit: long pauses while someone reads or thinks are shortened on replay.
+const PLAYBACK_IDLE_LIMIT_SECONDS = 2;
+
+type CastEvent = { time: number; code: string; data: string };
+
+type TerminalListResponse = { ok: boolean; message?: string; terminals?: TerminalInfo[]; terminal?: TerminalInfo };
+
+async function terminalRequest(path: string, init?: RequestInit): Promise<TerminalListResponse> {
+  const response = await fetch(path, init);
+  const data = (await response.json()) as TerminalListResponse;
+  if (!response.ok) throw new Error(data.message ?? `Terminal request failed (${response.status})`);
+  return data;
+}
+
+function spectateUrl(broadcastId: string): string {
+  return `${window.location.origin}/spectate/${broadcastId}`;
+}
+
+// Polled rather than pushed: the presenter's socket belongs to the sandbox xterm addon, which
+// only understands the PTY's own control messages.
+function useBroadcastStatus(broadcastId: string | undefined): TerminalBroadcastStatus | undefined {
+  const [status, setStatus] = useState<TerminalBroadcastStatus | undefined>();
+
+  useEffect(() => {
+    setStatus(undefined);
+    if (!broadcastId) return;
+
+    const refresh = () => {
+      fetch(`/api/broadcasts/${broadcastId}`)
+        .then(async (response) => {
+          const data = (await response.json()) as { broadcast?: TerminalBroadcastStatus };
+          if (data.broadcast) setStatus(data.broadcast);
+        })
+        .catch(() => undefined);
+    };
+    refresh();
+    const timer = window.setInterval(refresh, BROADCAST_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [broadcastId]);
+
+  return status;
+}
+
+function nextTerminalName(terminals: TerminalInfo[]): string {
+  const names = new Set(terminals.map((terminal) => terminal.name));
+  if (!names.has('main')) return 'main';
+  let index = 2;
+  while (names.has(`shell-${index}`)) index += 1;
+  return `shell-${index}`;
+}
+
+// Tabs of shell sessions in one of the participant's sandboxes: the terminal sandbox by default,
+// or any example's, so its files (e.g. /workspace/data) can be inspected by hand.
+export function TerminalLab({ initialScope = 'terminal' }: { initialScope?: string }) {
+  const [scopes, setScopes] = useState<string[]>([initialScope]);
+  const [scope, setScope] = useState(initialScope);
+  const [terminals, setTerminals] = useState<TerminalInfo[]>([]);
+  const [activeName, setActiveName] = useState<string | undefined>();
+  const [newName, setNewName] = useState('');
+  const [newCwd, setNewCwd] = useState('/workspace');
+  const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    let disposed = false;
-    let terminal: Terminal | undefined;
-    let addon: SandboxAddon | undefined;
-    let fitAddon: FitAddon | undefined;
-    let resizeObserver: ResizeObserver | undefined;
+    fetch('/api/sandboxes')
+      .then(async (response) => {
+        const data = (await response.json()) as { sandboxes?: SandboxSummary[] };
+        if (data.sandboxes) setScopes(data.sandboxes.map((sandbox) => sandbox.scope));
+      })
+      .catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
 
-    async function connect() {
+    async function load() {
+      setError(null);
       try {
-        const response = await fetch('/api/terminal/bootstrap');
-        if (!response.ok) {
-          throw new Error(await response.text());
+        const path = `/api/terminals/${encodeURIComponent(scope)}`;
+        let list = (await terminalRequest(path)).terminals ?? [];
+        // Opening a sandbox with no terminals gives it one, so there is always a prompt to type into.
+        if (list.length === 0) {
+          try {
+            const created = await terminalRequest(path, {
+              method: 'POST',
+              headers: { 'content-type': 'application/json' },
+              body: JSON.stringify({ name: 'main' })
+            });
+            list = created.terminal ? [created.terminal] : [];
+          } catch (createError) {
+            // Another load (StrictMode's second effect run, or a second tab) may have created it first.
+            list = (await terminalRequest(path)).terminals ?? [];
+            if (list.length === 0) throw createError;
+          }
         }
+        if (cancelled) return;
+        setTerminals(list);
+        setActiveName(list[0]?.name);
+      } catch (loadError) {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : String(loadError));
+      }
+    }
 
-        const bootstrap = (await response.json()) as TerminalBootstrapResult;
-        if (!rootRef.current || disposed) return;
-
-        terminal = new Terminal({
-          cursorBlink: true,
-          convertEol: true,
-          fontSize: 14,
-          lineHeight: 1.2,
-          fontFamily: 'IBM Plex Mono, ui-monospace, monospace',
-          theme: {
-            background: '#0f1115',
-            foreground: '#f3f3f3'
-          }
-        });
-        terminal.open(rootRef.current);
-        fitAddon = new FitAddon();
-        terminal.loadAddon(fitAddon);
-        fitAddon.fit();
-        terminal.writeln('Cloudflare Sandbox PTY connected');
-
-        addon = new SandboxAddon({
-          getWebSocketUrl: ({ sandboxId, sessionId, origin }) => {
-            const params = new URLSearchParams({ id: sandboxId });
-            if (sessionId) params.set('session', sessionId);
-            return `${origin}/ws/terminal?${params.toString()}`;
-          },
-          onStateChange: (nextState, nextError) => {
-            setState(nextState);
-            if (nextError) {
-              setError(nextError.message);
-            }
-          }
-        });
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [scope]);
 
-        terminal.loadAddon(addon);
-        addon.connect({ sandboxId: bootstrap.sandboxId, sessionId: bootstrap.sessionId });
+  async function openTerminal() {
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await terminalRequest(`/api/terminals/${encodeURIComponent(scope)}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name: newName.trim() || nextTerminalName(terminals), cwd: newCwd })
+      });
+      if (data.terminal) {
+        setTerminals((current) => [...current, data.terminal as TerminalInfo]);
+        setActiveName(data.terminal.name);
+      }
+      setNewName('');
+    } catch (openError) {
+      setError(openError instanceof Error ? openError.message : String(openError));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function closeTerminal(name: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await terminalRequest(
+        `/api/terminals/${encodeURIComponent(scope)}/${encodeURIComponent(name)}`,
+        { method: 'DELETE' }
+      );
+      const remaining = data.terminals ?? [];
+      setTerminals(remaining);
+      setActiveName((current) => (current === name ? remaining[0]?.name : current));
+    } catch (closeError) {
+      setError(closeError instanceof Error ? closeError.message : String(closeError));
+    } finally {
+      setBusy(false);
+    }
+  }
 
-        resizeObserver = new ResizeObserver(() => {
-          fitAddon?.fit();
-        });
-        resizeObserver.observe(rootRef.current);
-      } catch (connectError) {
-        setError(connectError instanceof Error ? connectError.message : String(connectError));
+  async function setBroadcast(name: string, live: boolean) {
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await terminalRequest(
+        `/api/terminals/${encodeURIComponent(scope)}/${encodeURIComponent(name)}/broadcast`,
+        { method: live ? 'POST' : 'DELETE' }
+      );
+      const updated = data.terminal;
+      if (updated) {
+        setTerminals((current) => current.map((terminal) => (terminal.name === updated.name ? updated : terminal)));
       }
+    } catch (broadcastError) {
+      setError(broadcastError instanceof Error ? broadcastError.message : String(broadcastError));
+    } finally {
+      setBusy(false);
     }
+  }
 
-    void connect();
+  const active = terminals.find((terminal) => terminal.name === activeName);
 
+  return (
+    <div className="terminal-lab">
+      <div className="terminal-toolbar">
+        <Select label="Sandbox" value={scope} onValueChange={(value) => setScope(String(value))}>
+          {scopes.map((candidate) => (
+            <Select.Option key={candidate} value={candidate}>
+              {candidate}
+            </Select.Option>
+          ))}
+        </Select>
+        <Input
+          label="New terminal name"
+          placeholder={nextTerminalName(terminals)}
+          value={newName}
+          onChange={(event) => setNewName(event.currentTarget.value)}
+        />
+        <Input label="Working directory" value={newCwd} onChange={(event) => setNewCwd(event.currentTarget.value)} />
+        <Button variant="secondary" onClick={() => void openTerminal()} loading={busy}>
+          New terminal
+        </Button>
+      </div>
+
+      <div className="terminal-tabs" role="tablist">
+        {terminals.map((terminal) => (
+          <span key={terminal.name} className="terminal-tab">
+            <Button
+              role="tab"
+              aria-selected={terminal.name === activeName}
+              variant={terminal.name === activeName ? 'primary' : 'secondary'}
+              onClick={() => setActiveName(terminal.name)}
+            >
+              {terminal.name}
+            </Button>
+            <Button
+              variant="secondary"
+              aria-label={`Close ${terminal.name}`}
+              onClick={() => void closeTerminal(terminal.name)}
+              disabled={busy}
+            >
+              ×
+            </Button>
+          </span>
+        ))}
+      </div>
+
+      {active ? (
+        <div className="action-row terminal-broadcast">
+          <Button
+            variant="secondary"
+            onClick={() => void setBroadcast(active.name, !active.broadcastId)}
+            disabled={busy}
+          >
+            {active.broadcastId ? 'Stop sharing' : 'Share read-only'}
+          </Button>
+          {active.broadcastId ? (
+            <>
+              <code>{spectateUrl(active.broadcastId)}</code>
+              <Button
+                variant="secondary"
+                onClick={() => void navigator.clipboard.writeText(spectateUrl(active.broadcastId as string))}
+              >
+                Copy spectate link
+              </Button>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+
+      {error ? <pre className="error-panel">{error}</pre> : null}
+      {active ? (
+        // Keyed on the broadcast too: output only reaches spectators through a connection opened while sharing.
+        <TerminalPane key={`${active.sandboxId}/${active.sessionId}/${active.broadcastId ?? ''}`} terminal={active} />
+      ) : (
+        <p>No terminals open in this sandbox.</p>
+      )}
+
+      <details className="terminal-recordings">
+        <summary>Recordings</summary>
+        <TerminalRecordingList
+          key={scope}
+          listPath={`/api/recordings?scope=${encodeURIComponent(scope)}`}
+          castPath={(id) => `/api/recordings/${encodeURIComponent(id)}`}
+        />
+      </details>
+    </div>
+  );
+}
+
+// Every PTY connection is recorded server-side as asciicast v2. The facilitator dashboard reuses
+// this list with its own routes and token header.
+export function TerminalRecordingList({
+  listPath,
+  castPath,
+  headers
+}: {
+  listPath: string;
+  castPath: (id: string) => string;
+  headers?: HeadersInit;
+}) {
+  const [recordings, setRecordings] = useState<TerminalRecordingSummary[] | undefined>();
+  const [playing, setPlaying] = useState<{ id: string; cast: string } | undefined>();
+  const [busyId, setBusyId] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    setBusyId('list');
+    setError(null);
+    try {
+      const response = await fetch(listPath, { headers });
+      const data = (await response.json()) as { message?: string; recordings?: TerminalRecordingSummary[] };
+      if (!response.ok || !data.recordings) throw new Error(data.message ?? `Recordings failed (${response.status})`);
+      setRecordings(data.recordings);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    } finally {
+      setBusyId(undefined);
+    }
+  }
+
+  async function fetchCast(recording: TerminalRecordingSummary): Promise<string | undefined> {
+    setBusyId(recording.id);
+    setError(null);
+    try {
+      const response = await fetch(castPath(recording.id), { headers });
+      if (!response.ok) throw new Error(await response.text());
+      return await response.text();
+    } catch (castError) {
+      setError(castError instanceof Error ? castError.message : String(castError));
+      return undefined;
+    } finally {
+      setBusyId(undefined);
+    }
+  }
+
+  async function play(recording: TerminalRecordingSummary) {
+    const cast = await fetchCast(recording);
+    if (cast) setPlaying({ id: recording.id, cast });
+  }
+
+  // A plain link can't carry the facilitator's token header, so downloads go through a blob URL.
+  async function download(recording: TerminalRecordingSummary) {
+    const cast = await fetchCast(recording);
+    if (!cast) return;
+    const url = URL.createObjectURL(new Blob([cast], { type: 'application/x-asciicast' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${recording.terminal}-${recording.startedAt.replace(/[:.]/g, '-')}.cast`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="recording-list">
+      <Button variant="secondary" onClick={() => void load()} loading={busyId === 'list'}>
+        {recordings ? 'Refresh recordings' : 'Load recordings'}
+      </Button>
+      {error ? <pre className="error-panel">{error}</pre> : null}
+      {recordings && recordings.length === 0 ? <p>No recordings yet. Every terminal connection is recorded.</p> : null}
+      {recordings?.map((recording) => (
+        <div key={recording.id} className="preview-row">
+          <div>
+            <code>{recording.terminal}</code> in <code>{recording.scope}</code> ·{' '}
+            {new Date(recording.startedAt).toLocaleTimeString()}
+            {recording.endedAt
+              ? ` · ${((Date.parse(recording.endedAt) - Date.parse(recording.startedAt)) / 1000).toFixed(0)}s`
+              : ' · live'}
+            {` · ${(recording.bytes / 1024).toFixed(1)} KB`}
+            {recording.truncated ? ' · truncated' : ''}
+          </div>
+          <div className="action-row">
+            <Button variant="secondary" onClick={() => void play(recording)} loading={busyId === recording.id}>
+              Play
+            </Button>
+            <Button variant="secondary" onClick={() => void download(recording)} disabled={busyId === recording.id}>
+              Download .cast
+            </Button>
+          </div>
+        </div>
+      ))}
+      {playing ? <CastPlayer key={playing.id} cast={playing.cast} /> : null}
+    </div>
+  );
+}
+
+function parseCast(cast: string): { width: number; height: number; events: CastEvent[] } {
+  const [headerLine, ...eventLines] = cast.split('\n').filter(Boolean);
+  const header = JSON.parse(headerLine) as { width?: number; height?: number };
+  const events = eventLines.flatMap((line) => {
+    const [time, code, data] = JSON.parse(line) as [number, string, string];
+    return code === 'o' || code === 'r' ? [{ time, code, data }] : [];
+  });
+  return { width: header.width ?? 120, height: header.height ?? 30, events };
+}
+
+function CastPlayer({ cast }: { cast: string }) {
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const terminalRef = useRef<Terminal | undefined>();
+  const nextEventRef = useRef(0);
+  const parsed = useMemo(() => parseCast(cast), [cast]);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [elapsed, setElapsed] = useState(0);
+  const duration = parsed.events.at(-1)?.time ?? 0;
+
+  useEffect(() => {
+    if (!rootRef.current) return;
+    const terminal = new Terminal({
+      cols: parsed.width,
+      rows: parsed.height,
+      disableStdin: true,
+      convertEol: true,
+      fontSize: 14,
+      lineHeight: 1.2,
+      fontFamily: 'IBM Plex Mono, ui-monospace, monospace',
+      theme: {
+        background: '#0f1115',
+        foreground: '#f3f3f3'
+      }
+    });
+    terminal.open(rootRef.current);
+    terminalRef.current = terminal;
     return () => {
-      disposed = true;
-      resizeObserver?.disconnect();
-      addon?.disconnect();
-      terminal?.dispose();
+      terminalRef.current = undefined;
+      terminal.dispose();
     };
-  }, []);
+  }, [parsed]);
+
+  // Plays one event per timer, so pausing or changing speed takes effect at the next event.
+  useEffect(() => {
+    if (!playing) return;
+    let timer: number | undefined;
+
+    const step = () => {
+      const index = nextEventRef.current;
+      const event = parsed.events[index];
+      if (!event) {
+        setPlaying(false);
+        return;
+      }
+
+      const gap = Math.min(event.time - (parsed.events[index - 1]?.time ?? 0), PLAYBACK_IDLE_LIMIT_SECONDS);
+      timer = window.setTimeout(() => {
+        const terminal = terminalRef.current;
+        if (event.code === 'o') terminal?.write(event.data);
+        if (event.code === 'r') {
+          const [cols, rows] = event.data.split('x').map(Number);
+          if (cols > 0 && rows > 0) terminal?.resize(cols, rows);
+        }
+        nextEventRef.current = index + 1;
+        setElapsed(event.time);
+        step();
+      }, (gap * 1000) / speed);
+    };
+
+    step();
+    return () => window.clearTimeout(timer);
+  }, [playing, speed, parsed]);
+
+  function togglePlaying() {
+    if (!playing && nextEventRef.current >= parsed.events.length) {
+      restart();
+      return;
+    }
+    setPlaying(!playing);
+  }
+
+  function restart() {
+    terminalRef.current?.reset();
+    terminalRef.current?.resize(parsed.width, parsed.height);
+    nextEventRef.current = 0;
+    setElapsed(0);
+    setPlaying(true);
+  }
+
+  return (
+    <div className="terminal-wrap">
+      <div className="terminal-meta">
+        <span>
+          Replay · {elapsed.toFixed(1)}s / {duration.toFixed(1)}s
+        </span>
+      </div>
+      <div className="action-row terminal-player-controls">
+        <Button variant="secondary" onClick={togglePlaying}>
+          {playing ? 'Pause' : 'Play'}
+        </Button>
+        <Button variant="secondary" onClick={restart}>
+          Restart
+        </Button>
+        <Select label="Speed" value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+          {PLAYBACK_SPEEDS.map((option) => (
+            <Select.Option key={option} value={String(option)}>
+              {option}x
+            </Select.Option>
+          ))}
+        </Select>
+      </div>
+      <div ref={rootRef} className="terminal-root" />
+    </div>
+  );
+}
+
+function TerminalPane({ terminal: info }: { terminal: TerminalInfo }) {
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const [state, setState] = useState('disconnected');
+  const [error, setError] = useState<string | null>(null);
+  const broadcast = useBroadcastStatus(info.broadcastId);
+
+  useEffect(() => {
+    if (!rootRef.current) return;
+
+    const terminal = new Terminal({
+      cursorBlink: true,
+      convertEol: true,
+      fontSize: 14,
+      lineHeight: 1.2,
+      fontFamily: 'IBM Plex Mono, ui-monospace, monospace',
+      theme: {
+        background: '#0f1115',
+        foreground: '#f3f3f3'
+      }
+    });
+    terminal.open(rootRef.current);
+    const fitAddon = new FitAddon();
+    terminal.loadAddon(fitAddon);
+    fitAddon.fit();
+    terminal.writeln(`Cloudflare Sandbox PTY: ${info.name} in ${info.scope}`);
+
+    const addon = new SandboxAddon({
+      getWebSocketUrl: ({ sandboxId, sessionId, origin }) => {
+        const params = new URLSearchParams({ id: sandboxId });
+        if (sessionId) params.set('session', sessionId);
+        return `${origin}/ws/terminal?${params.toString()}`;
+      },
+      onStateChange: (nextState, nextError) => {
+        setState(nextState);
+        if (nextError) {
+          setError(nextError.message);
+        }
+      }
+    });
+
+    terminal.loadAddon(addon);
+    addon.connect({ sandboxId: info.sandboxId, sessionId: info.sessionId });
+
+    const resizeObserver = new ResizeObserver(() => {
+      fitAddon.fit();
+    });
+    resizeObserver.observe(rootRef.current);
+
+    return () => {
+      resizeObserver.disconnect();
+      addon.disconnect();
+      terminal.dispose();
+    };
+  }, [info.name, info.scope, info.sandboxId, info.sessionId]);
+
+  return (
+    <div className="terminal-wrap">
+      <div className="terminal-meta">
+        <span>
+          {info.name} · {info.cwd} · PTY status: {state}
+          {broadcast?.live ? ` · Sharing · ${broadcast.viewers} ${broadcast.viewers === 1 ? 'viewer' : 'viewers'}` : ''}
+        </span>
+        {error ? <span className="terminal-error">Error: {error}</span> : null}
+      </div>
+      <div ref={rootRef} className="terminal-root" />
+    </div>
+  );
+}
+
+// The audience side of a shared terminal. It uses the same xterm addon as a real PTY, but the socket
+// ends at the broadcast rather than the sandbox, so typing here goes nowhere.
+export function TerminalSpectator({ broadcastId }: { broadcastId: string }) {
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const [state, setState] = useState('disconnected');
+  const [error, setError] = useState<string | null>(null);
+  const broadcast = useBroadcastStatus(broadcastId);
+
+  useEffect(() => {
+    if (!rootRef.current) return;
+
+    const terminal = new Terminal({
+      disableStdin: true,
+      convertEol: true,
+      fontSize: 14,
+      lineHeight: 1.2,
+      fontFamily: 'IBM Plex Mono, ui-monospace, monospace',
+      theme: {
+        background: '#0f1115',
+        foreground: '#f3f3f3'
+      }
+    });
+    terminal.open(rootRef.current);
+    const fitAddon = new FitAddon();
+    terminal.loadAddon(fitAddon);
+    fitAddon.fit();
+
+    const addon = new SandboxAddon({
+      getWebSocketUrl: ({ origin }) => `${origin}/ws/terminal?spectate=${broadcastId}`,
+      onStateChange: (nextState, nextError) => {
+        setState(nextState);
+        if (nextError) {
+          setError(nextError.message);
+        }
+      }
+    });
+
+    terminal.loadAddon(addon);
+    addon.connect({ sandboxId: broadcastId });
+
+    const resizeObserver = new ResizeObserver(() => {
+      fitAddon.fit();
+    });
+    resizeObserver.observe(rootRef.current);
+
+    return () => {
+      resizeObserver.disconnect();
+      addon.disconnect();
+      terminal.dispose();
+    };
+  }, [broadcastId]);
 
   return (
     <div className="terminal-wrap">
       <div className="terminal-meta">
-        <span>PTY status: {state}</span>
+        <span>
+          {broadcast?.terminal ? `${broadcast.terminal} in ${broadcast.scope}` : 'Shared terminal'} · read-only ·{' '}
+          {broadcast && !broadcast.live ? 'ended' : state}
+          {broadcast?.live ? ` · ${broadcast.viewers} ${broadcast.viewers === 1 ? 'viewer' : 'viewers'}` : ''}
+        </span>
         {error ? <span className="terminal-error">Error: {error}</span> : null}
       </div>
       <div ref={rootRef} className="terminal-root" />
@@ -12,6 +12,199 @@ export type ExampleRunResult = {
   details?: unknown;
 };
 
+export type ExampleStreamEvent =
+  | { type: 'phase'; label: string }
+  | { type: 'output'; stream: 'stdout' | 'stderr'; data: string }
+  | { type: 'result'; result: ExampleRunResult }
+  | { type: 'error'; message: string };
+
+export type CiTestCommand = 'node --test' | 'npm test' | 'pytest';
+
+export type CiTestCase = {
+  name: string;
+  status: 'pass' | 'fail' | 'skip';
+  durationMs?: number;
+  message?: string;
+};
+
+export type PreviewInfo = {
+  name: string;
+  port: number;
+  processId: string;
+  command: string;
+  startedAt: string;
+  status: string;
+  url?: string;
+};
+
+export type SandboxSummary = {
+  id: string;
+  scope: string;
+};
+
+export type SandboxInspection = SandboxSummary & {
+  processes: Array<{
+    id: string;
+    command: string;
+    status: string;
+    startTime?: string;
+  }>;
+  exposedPorts: Array<{
+    port: number;
+    url: string;
+    status: string;
+  }>;
+  codeContexts: number;
+  workspaceBytes?: number;
+};
+
+export type ResourceLimits = {
+  cpuSeconds: number;
+  memoryMb: number;
+  outputKb: number;
+  maxProcesses: number;
+  wallSeconds: number;
+};
+
+export type ResourceLimitReport = {
+  limits: ResourceLimits;
+  limitHit: 'cpu' | 'memory' | 'output' | 'processes' | 'wall-time' | null;
+  exitCode: number;
+  signal: string | null;
+  wallTimeMs: number;
+  cpuTimeMs: number;
+  peakMemoryKb: number;
+  outputBytes: number;
+  outputTruncated: boolean;
+};
+
+export type CodeLanguage = 'python' | 'javascript' | 'typescript' | 'shell';
+
+export type StaticAnalysisPolicy = 'warn' | 'rewrite' | 'block';
+
+export type StaticAnalysisFinding = {
+  rule: string;
+  severity: 'warning' | 'danger';
+  line: number;
+  column: number;
+  message: string;
+  rewritten: boolean;
+};
+
+export type StaticAnalysisReport = {
+  policy: StaticAnalysisPolicy;
+  findings: StaticAnalysisFinding[];
+  blocked: boolean;
+  rewrites: number;
+  syntaxError?: string;
+};
+
+export type ArtifactInfo = {
+  path: string;
+  name: string;
+  bytes: number;
+  contentType: string;
+  change: 'created' | 'modified';
+  url: string;
+};
+
+// Attempt 0 is the original script; later attempts are model repairs fed the previous stderr.
+export type RepairAttempt = {
+  attempt: number;
+  code: string;
+  stderr: string;
+  exitCode: number;
+  ok: boolean;
+};
+
+export type DatasetFormat = 'csv' | 'json' | 'ndjson' | 'parquet' | 'xlsx';
+
+export type DatasetInfo = {
+  name: string;
+  path: string;
+  format: DatasetFormat;
+  bytes: number;
+};
+
+export type CsvColumnType = 'int64' | 'float64' | 'bool' | 'datetime' | 'category' | 'string' | 'empty';
+
+export type CsvColumnProfile = {
+  name: string;
+  dtype: CsvColumnType;
+  nullCount: number;
+  distinctCount: number;
+  min?: number | string;
+  max?: number | string;
+  topValues?: Array<{ value: string; count: number }>;
+  mixedTypes?: boolean;
+};
+
+export type CsvProfile = {
+  rows: number;
+  columns: string[];
+  dtypes: Record<string, CsvColumnType>;
+  profile: CsvColumnProfile[];
+  sample: Array<Record<string, string>>;
+  warnings: string[];
+};
+
+export type RichOutput =
+  | { kind: 'text'; text: string }
+  | { kind: 'image'; mimeType: 'image/png' | 'image/jpeg'; data: string }
+  | { kind: 'svg'; svg: string }
+  | { kind: 'html'; html: string }
+  | { kind: 'json'; value: unknown }
+  | { kind: 'table'; columns: string[]; rows: string[][]; truncated: boolean };
+
+export type NotebookLanguage = Exclude<CodeLanguage, 'shell'>;
+
+export type NotebookContextInfo = {
+  name: string;
+  contextId: string;
+  language: NotebookLanguage;
+  createdAt: string;
+  cellCount: number;
+  status: 'active' | 'expired';
+  lastUsed?: string;
+  network?: NetworkPolicy;
+};
+
+export type NotebookCellResult = {
+  ok: boolean;
+  context: string;
+  cell: number;
+  code: string;
+  output: string;
+  stderr?: string;
+  outputs: RichOutput[];
+  network?: NetworkEgressReport;
+};
+
+export type NetworkPolicyMode = 'none' | 'allowlist' | 'open';
+
+export type NetworkPolicy = {
+  mode: NetworkPolicyMode;
+  allowlist: string[];
+};
+
+export type NetworkConnectionAttempt = {
+  host: string;
+  port: number | null;
+  allowed: boolean;
+  via: 'dns' | 'connect' | 'sendto';
+};
+
+// "kernel": an iptables firewall for the run's uid backs the Python guard. "python": only the
+// in-process audit hook applies, which native code can get around.
+export type NetworkEnforcement = 'kernel' | 'python';
+
+export type NetworkEgressReport = {
+  policy: NetworkPolicy;
+  enforcement: NetworkEnforcement;
+  attempts: NetworkConnectionAttempt[];
+  blocked: number;
+};
+
 export type SessionRunResult = {
   ok: boolean;
   sessionId: SessionId;
@@ -24,9 +217,85 @@ export type SessionRunResult = {
   details?: unknown;
 };
 
-export type TerminalBootstrapResult = {
+export type ContentBlockRunResult = {
   ok: boolean;
+  blockId: string;
   sandboxId: string;
-  sessionId: string;
+  output: string;
+  stderr: string;
+  exitCode: number;
+};
+
+export type RunHistoryKind = 'example' | 'session';
+
+export type RunHistorySummary = {
+  id: string;
+  kind: RunHistoryKind;
+  targetId: string;
+  ok: boolean;
   summary: string;
+  exitCode?: number;
+  startedAt: string;
+  durationMs: number;
+};
+
+// request is the body (or query) the run was started with, so the UI can re-run it verbatim.
+export type RunHistoryEntry = RunHistorySummary & {
+  request?: Record<string, unknown>;
+  result: ExampleRunResult | SessionRunResult;
+};
+
+export type FacilitatorRun = RunHistorySummary & {
+  participantId: string;
+  sandboxId: string;
+};
+
+export type FacilitatorParticipant = {
+  id: string;
+  lastSeenAt: string;
+  runs: number;
+  failures: number;
+  // Newest run per example or session.
+  latest: FacilitatorRun[];
+  sandboxes: Array<SandboxSummary & { lastUsedAt?: string }>;
+};
+
+export type FacilitatorOverview = {
+  participants: FacilitatorParticipant[];
+  recentFailures: FacilitatorRun[];
+};
+
+// One tab in TerminalLab: a named shell session, with its own cwd and env, in a participant sandbox.
+export type TerminalInfo = {
+  name: string;
+  scope: string;
+  sandboxId: string;
+  sessionId: string;
+  cwd: string;
+  createdAt: string;
+  // Set while the terminal is shared read-only; the ID is the spectate link's only credential.
+  broadcastId?: string;
+};
+
+export type TerminalBroadcastStatus = {
+  live: boolean;
+  terminal?: string;
+  scope?: string;
+  startedAt?: string;
+  viewers: number;
+};
+
+// One PTY connection, recorded as asciicast v2; bytes counts the stored event lines.
+export type TerminalRecordingSummary = {
+  id: string;
+  scope: string;
+  sandboxId: string;
+  sessionId: string;
+  terminal: string;
+  startedAt: string;
+  endedAt?: string;
+  width: number;
+  height: number;
+  bytes: number;
+  truncated: boolean;
 };
@@ -0,0 +1,65 @@
+// Keyed by "<example>/<kind>/<language>" or "<example>/<kind>"; see stubAiProvider in worker.ai.ts.
+// Placeholders are the task's prompt values, plus "<name>Json" variants quoted as string literals.
+export const AI_STUB_FIXTURES: Record<string, string> = {
+  'ai-generated-code/generate/python': `# Stub response (AI_PROVIDER=stub)
+prompt = {{promptJson}}
+words = prompt.split()
+print("prompt:", prompt)
+print("words:", len(words))
+print("characters:", len(prompt))
+print("longest word:", max(words, key=len) if words else "")`,
+  'ai-generated-code/generate/javascript': `// Stub response (AI_PROVIDER=stub)
+const prompt = {{promptJson}};
+const words = prompt.split(/\\s+/).filter(Boolean);
+console.log('prompt:', prompt);
+console.log('words:', words.length);
+console.log('characters:', prompt.length);`,
+  'ai-generated-code/generate/typescript': `// Stub response (AI_PROVIDER=stub)
+const prompt: string = {{promptJson}};
+const words: string[] = prompt.split(/\\s+/).filter(Boolean);
+console.log('prompt:', prompt);
+console.log('words:', words.length);
+console.log('characters:', prompt.length);`,
+  'ai-generated-code/generate/shell': `# Stub response (AI_PROVIDER=stub)
+for word in thinking in sandboxes; do
+  echo "word: $word (\${#word} characters)"
+done
+echo "hostname: $(hostname)"`,
+  'ai-generated-code/repair/python': `# Stub repair (AI_PROVIDER=stub): replaces the failing script with a known-good one
+goal = {{goalJson}}
+print("goal:", goal)
+print("characters:", len(goal))`,
+  'ai-generated-code/repair/javascript': `// Stub repair (AI_PROVIDER=stub): replaces the failing script with a known-good one
+const goal = {{goalJson}};
+console.log('goal:', goal);
+console.log('characters:', goal.length);`,
+  'ai-generated-code/repair/typescript': `// Stub repair (AI_PROVIDER=stub): replaces the failing script with a known-good one
+const goal: string = {{goalJson}};
+console.log('goal:', goal);
+console.log('characters:', goal.length);`,
+  'ai-generated-code/repair/shell': `# Stub repair (AI_PROVIDER=stub): replaces the failing script with a known-good one
+echo "goal: the stub provider ignores it"
+echo "exit code of the failed attempt: {{exitCode}}"`,
+  'data-analysis/generate': `# Stub analysis (AI_PROVIDER=stub)
+import pandas as pd
+
+df = {{loader}}
+print("Question:", {{questionJson}})
+print("Rows:", len(df), "Columns:", len(df.columns))
+print()
+print(df.describe(include="all").transpose().to_string())
+
+numeric = df.select_dtypes("number")
+if not numeric.empty:
+    print()
+    print("Column totals:")
+    print(numeric.sum().to_string())`,
+  'data-analysis/repair': `# Stub repair (AI_PROVIDER=stub): replaces the failing script with a known-good summary
+import pandas as pd
+
+df = {{loader}}
+print("Question:", {{goalJson}})
+print("Rows:", len(df), "Columns:", len(df.columns))
+print()
+print(df.describe(include="all").transpose().to_string())`
+};
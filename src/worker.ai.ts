@@ -0,0 +1,148 @@
+/// <reference types="@cloudflare/workers-types" />
+import type { CodeLanguage } from './types';
+import type { AiModelDefinition, ExampleId } from './workshop';
+import { AI_STUB_FIXTURES } from './worker.ai.fixtures';
+import { fillPlaceholders, type RenderedPrompt } from './worker.prompts';
+
+export const aiProviderNames = ['workers-ai', 'openai-compatible', 'stub'] as const;
+
+export type AiProviderName = (typeof aiProviderNames)[number];
+
+// What the prompt is for, so providers that don't call a model (the stub) can still answer sensibly.
+export type AiTask = {
+  exampleId: ExampleId;
+  kind: 'generate' | 'repair';
+  language: CodeLanguage;
+  values: Record<string, string | number>;
+};
+
+export type AiCompletionRequest = {
+  model: AiModelDefinition;
+  prompt: RenderedPrompt;
+  task: AiTask;
+};
+
+export type AiProvider = {
+  name: AiProviderName;
+  // Resolves to undefined when the provider answered without any usable text.
+  complete: (request: AiCompletionRequest) => Promise<string | undefined>;
+};
+
+export type AiProviderConfig = {
+  AI: Ai;
+  AI_PROVIDER?: string;
+  AI_BASE_URL?: string;
+  AI_API_KEY?: string;
+  AI_MODEL?: string;
+};
+
+export function createAiProvider(config: AiProviderConfig): AiProvider {
+  const name = config.AI_PROVIDER?.trim() || 'workers-ai';
+
+  switch (name) {
+    case 'workers-ai':
+      return workersAiProvider(config.AI);
+    case 'openai-compatible':
+      if (!config.AI_BASE_URL) {
+        throw new Error('AI_BASE_URL is required when AI_PROVIDER is openai-compatible.');
+      }
+      return openAiCompatibleProvider(config.AI_BASE_URL, config.AI_API_KEY, config.AI_MODEL);
+    case 'stub':
+      return stubAiProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER: ${name}. Use one of ${aiProviderNames.join(', ')}.`);
+  }
+}
+
+function workersAiProvider(ai: Ai): AiProvider {
+  return {
+    name: 'workers-ai',
+    async complete({ model, prompt }) {
+      const response = await ai.run(model.id as unknown as keyof AiModels, {
+        messages: chatMessages(prompt),
+        max_tokens: model.maxTokens,
+        temperature: model.temperature
+      });
+      return workersAiText(response);
+    }
+  };
+}
+
+// Older Workers AI models reply with { response }; newer chat models reply with OpenAI-style choices.
+function workersAiText(response: unknown): string | undefined {
+  if (!response || typeof response !== 'object') return undefined;
+  const record = response as Record<string, unknown>;
+
+  if (typeof record.response === 'string') return record.response;
+
+  const result = record.result as Record<string, unknown> | undefined;
+  if (result && typeof result.response === 'string') return result.response;
+
+  return chatCompletionText(record);
+}
+
+// Any server speaking the OpenAI chat completions API (llama.cpp, Ollama, vLLM, ...).
+function openAiCompatibleProvider(baseUrl: string, apiKey?: string, modelOverride?: string): AiProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai-compatible',
+    async complete({ model, prompt }) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          // Local servers rarely know Workers AI model IDs, so AI_MODEL can name theirs.
+          model: modelOverride || model.id,
+          messages: chatMessages(prompt),
+          max_tokens: model.maxTokens,
+          temperature: model.temperature
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`AI endpoint returned ${response.status}: ${(await response.text()).slice(0, 200)}`);
+      }
+      return chatCompletionText(await response.json());
+    }
+  };
+}
+
+// Deterministic answers from fixtures, so the examples work offline and without waiting on a model.
+function stubAiProvider(): AiProvider {
+  return {
+    name: 'stub',
+    async complete({ task }) {
+      const { exampleId, kind, language, values } = task;
+      const fixture =
+        AI_STUB_FIXTURES[`${exampleId}/${kind}/${language}`] ?? AI_STUB_FIXTURES[`${exampleId}/${kind}`];
+      if (!fixture) return undefined;
+
+      // Fixtures embed values as code literals through the "<name>Json" variants.
+      const literals = Object.fromEntries(
+        Object.entries(values).map(([name, value]) => [`${name}Json`, JSON.stringify(String(value))])
+      );
+      return fillPlaceholders(fixture, { ...values, ...literals });
+    }
+  };
+}
+
+function chatMessages(prompt: RenderedPrompt): Array<{ role: 'system' | 'user'; content: string }> {
+  return [
+    { role: 'system', content: prompt.system },
+    { role: 'user', content: prompt.user }
+  ];
+}
+
+function chatCompletionText(response: unknown): string | undefined {
+  if (!response || typeof response !== 'object') return undefined;
+  const choices = (response as Record<string, unknown>).choices;
+  if (!Array.isArray(choices) || choices.length === 0) return undefined;
+
+  const choice = choices[0] as Record<string, unknown>;
+  const message = choice.message as Record<string, unknown> | undefined;
+  return message && typeof message.content === 'string' ? message.content : undefined;
+}
@@ -0,0 +1,236 @@
+import type { StaticAnalysisPolicy, StaticAnalysisReport } from './types';
+import { staticAnalysisPolicies } from './workshop';
+
+export const STATIC_ANALYSIS_DIR = '/workspace/.workshop/analysis';
+export const STATIC_ANALYSIS_SCRIPT_PATH = `${STATIC_ANALYSIS_DIR}/static_analysis.py`;
+export const STATIC_ANALYSIS_INPUT_PATH = `${STATIC_ANALYSIS_DIR}/input.py`;
+
+// 126 is what shells report for "found but not executable".
+export const STATIC_ANALYSIS_BLOCKED_EXIT_CODE = 126;
+
+export function resolveAnalysisPolicy(requested: unknown, fallback: StaticAnalysisPolicy): StaticAnalysisPolicy {
+  return staticAnalysisPolicies.includes(requested as StaticAnalysisPolicy)
+    ? (requested as StaticAnalysisPolicy)
+    : fallback;
+}
+
+// The script prints the report plus the (possibly rewritten) code as one JSON object.
+export function parseAnalysisOutput(stdout: string): { report: StaticAnalysisReport; code: string } {
+  const { code, ...report } = JSON.parse(stdout) as StaticAnalysisReport & { code: string };
+  return { report, code };
+}
+
+export function analysisBlockedMessage(report: StaticAnalysisReport): string {
+  const dangerous = report.findings.filter((finding) => finding.severity === 'danger');
+  const lines = dangerous.map((finding) => `line ${finding.line}: [${finding.rule}] ${finding.message}`);
+  return [
+    `Static analysis blocked the run: ${dangerous.length} dangerous finding${dangerous.length === 1 ? '' : 's'}.`,
+    ...lines
+  ].join('\n');
+}
+
+// Parses with ast instead of pattern matching, so strings and comments never trigger findings.
+// Paths are only checked when they are string literals; computed paths are left to the runtime.
+export const STATIC_ANALYSIS_SCRIPT = `import ast
+import json
+import posixpath
+import sys
+
+policy, path = sys.argv[1], sys.argv[2]
+with open(path) as source_file:
+    source = source_file.read()
+
+DANGEROUS_MODULES = {
+    "subprocess": "spawns arbitrary processes",
+    "socket": "opens raw network connections",
+    "ctypes": "calls native code and can bypass the interpreter",
+    "pty": "spawns interactive terminals",
+}
+NETWORK_MODULES = {"urllib.request", "http.client", "requests", "httpx", "ftplib", "smtplib"}
+PROCESS_CALLS = {"system", "popen", "fork", "forkpty", "kill", "killpg"}
+PROCESS_PREFIXES = ("exec", "spawn")
+DYNAMIC_CALLS = {"eval", "exec", "compile", "__import__"}
+PATH_MUTATORS = {
+    "os": {"remove", "unlink", "rmdir", "removedirs", "mkdir", "makedirs", "rename", "replace", "chmod", "chown", "symlink", "truncate"},
+    "shutil": {"rmtree", "move", "copy", "copy2", "copyfile", "copytree", "chown"},
+}
+PATHLIB_WRITERS = {"write_text", "write_bytes", "touch", "mkdir", "unlink", "rmdir", "rename", "replace", "chmod", "symlink_to"}
+WORKSPACE = "/workspace"
+
+
+def dotted(node):
+    if isinstance(node, ast.Name):
+        return node.id
+    if isinstance(node, ast.Attribute):
+        base = dotted(node.value)
+        return base + "." + node.attr if base else None
+    return None
+
+
+def constant_string(node):
+    if isinstance(node, ast.Constant) and isinstance(node.value, str):
+        return node.value
+    return None
+
+
+def outside_workspace(value):
+    if value is None or not value.startswith("/") or value == "/dev/null":
+        return False
+    normalized = posixpath.normpath(value)
+    return normalized != WORKSPACE and not normalized.startswith(WORKSPACE + "/")
+
+
+class Analyzer(ast.NodeVisitor):
+    def __init__(self):
+        self.findings = []
+        self.aliases = {}
+
+    def report(self, node, rule, severity, message, fixable=False):
+        self.findings.append({
+            "rule": rule,
+            "severity": severity,
+            "line": getattr(node, "lineno", 0),
+            "column": getattr(node, "col_offset", 0) + 1,
+            "message": message,
+            "fixable": fixable,
+            "node": node,
+        })
+
+    def check_module(self, node, module):
+        root = module.split(".")[0]
+        if root in DANGEROUS_MODULES:
+            self.report(node, "dangerous-import", "danger", "Imports " + module + ", which " + DANGEROUS_MODULES[root] + ".")
+        elif module in NETWORK_MODULES or root in NETWORK_MODULES:
+            self.report(node, "network-import", "warning", "Imports " + module + "; outbound traffic is subject to the network policy.")
+
+    def visit_Import(self, node):
+        for alias in node.names:
+            self.check_module(node, alias.name)
+            self.aliases[alias.asname or alias.name.split(".")[0]] = alias.name if alias.asname else alias.name.split(".")[0]
+        self.generic_visit(node)
+
+    def visit_ImportFrom(self, node):
+        module = node.module or ""
+        self.check_module(node, module)
+        for alias in node.names:
+            self.aliases[alias.asname or alias.name] = module + "." + alias.name
+        self.generic_visit(node)
+
+    def resolve(self, name):
+        if not name:
+            return name
+        head, _, rest = name.partition(".")
+        resolved = self.aliases.get(head, head)
+        return resolved + ("." + rest if rest else "")
+
+    def visit_Call(self, node):
+        name = self.resolve(dotted(node.func))
+        module, _, attr = (name or "").rpartition(".")
+
+        if name in ("matplotlib.pyplot.show", "time.sleep", "input") or (attr == "show" and module == "plt"):
+            self.report(node, "blocking-call", "warning", name + "() blocks a non-interactive sandbox run.", fixable=True)
+        elif module == "os" and (attr in PROCESS_CALLS or attr.startswith(PROCESS_PREFIXES)):
+            self.report(node, "process-exec", "danger", name + "() runs other programs or signals processes.")
+        elif module == "subprocess":
+            self.report(node, "process-exec", "danger", name + "() spawns a subprocess.")
+        elif name in DYNAMIC_CALLS:
+            self.report(node, "dynamic-code", "warning", name + "() runs code that cannot be analyzed ahead of time.")
+        elif name == "open":
+            self.check_open(node)
+        elif module in PATH_MUTATORS and attr in PATH_MUTATORS[module]:
+            target = constant_string(node.args[0]) if node.args else None
+            if outside_workspace(target):
+                self.report(node, "write-outside-workspace", "danger", name + "() modifies " + target + " outside " + WORKSPACE + ".")
+        elif isinstance(node.func, ast.Attribute):
+            self.check_pathlib(node)
+
+        self.generic_visit(node)
+
+    def check_open(self, node):
+        target = constant_string(node.args[0]) if node.args else None
+        mode = constant_string(node.args[1]) if len(node.args) > 1 else None
+        for keyword in node.keywords:
+            if keyword.arg == "file":
+                target = constant_string(keyword.value)
+            elif keyword.arg == "mode":
+                mode = constant_string(keyword.value)
+        if mode and any(flag in mode for flag in "wax+") and outside_workspace(target):
+            self.report(node, "write-outside-workspace", "danger", "open() writes to " + target + " outside " + WORKSPACE + ".")
+
+    def check_pathlib(self, node):
+        method = node.func.attr
+        owner = node.func.value
+        if not isinstance(owner, ast.Call) or self.resolve(dotted(owner.func)) not in ("pathlib.Path", "Path", "pathlib.PurePath"):
+            return
+        target = constant_string(owner.args[0]) if owner.args else None
+        writes = method in PATHLIB_WRITERS
+        if method == "open":
+            mode = constant_string(node.args[0]) if node.args else None
+            writes = bool(mode and any(flag in mode for flag in "wax+"))
+        if writes and outside_workspace(target):
+            self.report(node, "write-outside-workspace", "danger", "Path." + method + "() modifies " + target + " outside " + WORKSPACE + ".")
+
+    def exits_loop(self, nodes, nested=False):
+        # A break only ends the loop it sits in; nested functions never end the outer loop.
+        for node in nodes:
+            if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef, ast.Lambda, ast.ClassDef)):
+                continue
+            if isinstance(node, (ast.Return, ast.Raise)) or (isinstance(node, ast.Break) and not nested):
+                return True
+            if isinstance(node, ast.Call) and self.resolve(dotted(node.func)) in ("sys.exit", "exit", "quit", "os._exit"):
+                return True
+            inner = nested or isinstance(node, (ast.For, ast.AsyncFor, ast.While))
+            if self.exits_loop(list(ast.iter_child_nodes(node)), inner):
+                return True
+        return False
+
+    def visit_While(self, node):
+        test = node.test
+        always_true = isinstance(test, ast.Constant) and bool(test.value)
+        if always_true and not self.exits_loop(node.body):
+            self.report(node, "infinite-loop", "danger", "while loop never breaks, returns, or exits.")
+        self.generic_visit(node)
+
+
+def rewrite(lines, statement):
+    # Only whole-statement calls can be swapped for pass without changing what the code means.
+    # AST column offsets count UTF-8 bytes, not characters.
+    first = lines[statement.lineno - 1].encode()
+    trailing = lines[statement.end_lineno - 1].encode()[statement.end_col_offset :].decode().strip()
+    if first[: statement.col_offset].strip() or (trailing and not trailing.startswith("#")):
+        return False
+    indent = first[: statement.col_offset].decode()
+    removed = " ".join(line.strip() for line in lines[statement.lineno - 1 : statement.end_lineno])
+    lines[statement.lineno - 1] = indent + "pass  # static analysis removed: " + removed
+    for index in range(statement.lineno, statement.end_lineno):
+        lines[index] = indent + "# " + lines[index].strip()
+    return True
+
+
+report = {"policy": policy, "findings": [], "blocked": False, "rewrites": 0}
+try:
+    tree = ast.parse(source)
+except SyntaxError as error:
+    report["syntaxError"] = "line " + str(error.lineno) + ": " + str(error.msg)
+    report["code"] = source
+    print(json.dumps(report))
+    sys.exit(0)
+
+statements = {id(node.value): node for node in ast.walk(tree) if isinstance(node, ast.Expr)}
+analyzer = Analyzer()
+analyzer.visit(tree)
+
+lines = source.split("\\n")
+for finding in sorted(analyzer.findings, key=lambda item: (item["line"], item["column"])):
+    node = finding.pop("node")
+    fixable = finding.pop("fixable")
+    statement = statements.get(id(node))
+    rewritten = policy in ("rewrite", "block") and fixable and statement is not None and rewrite(lines, statement)
+    report["rewrites"] += 1 if rewritten else 0
+    finding["rewritten"] = bool(rewritten)
+    report["findings"].append(finding)
+
+report["blocked"] = policy == "block" and any(item["severity"] == "danger" for item in report["findings"])
+report["code"] = "\\n".join(lines)
+print(json.dumps(report))
+`;
@@ -0,0 +1,93 @@
+import type { ArtifactInfo } from './types';
+
+export const WORKSPACE_ROOT = '/workspace';
+export const ARTIFACT_MANIFEST_PATH = `${WORKSPACE_ROOT}/.workshop/artifacts.json`;
+
+type FileSnapshot = Map<string, { bytes: number; modified: string }>;
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  csv: 'text/csv; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  log: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+  parquet: 'application/vnd.apache.parquet',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  zip: 'application/zip'
+};
+
+// Lists regular files below `dir` as "<relative path>\t<bytes>\t<mtime>" lines.
+export function snapshotCommand(dir: string): string {
+  return `find ${dir} -type f -printf '%P\\t%s\\t%T@\\n' 2>/dev/null || true`;
+}
+
+export function parseSnapshot(output: string): FileSnapshot {
+  const snapshot: FileSnapshot = new Map();
+  for (const line of output.split('\n')) {
+    const [path, bytes, modified] = line.split('\t');
+    if (!path || bytes === undefined || modified === undefined) continue;
+    snapshot.set(path, { bytes: Number.parseInt(bytes, 10), modified });
+  }
+  return snapshot;
+}
+
+export function diffSnapshots(
+  before: FileSnapshot,
+  after: FileSnapshot,
+  options: { scope: string; dir: string; ignore: string[] }
+): ArtifactInfo[] {
+  const prefix = options.dir.slice(WORKSPACE_ROOT.length + 1);
+  const artifacts: ArtifactInfo[] = [];
+
+  for (const [relative, file] of after) {
+    if (options.ignore.includes(relative)) continue;
+    const previous = before.get(relative);
+    if (previous && previous.modified === file.modified && previous.bytes === file.bytes) continue;
+
+    const path = prefix ? `${prefix}/${relative}` : relative;
+    artifacts.push({
+      path,
+      name: relative.split('/').pop() ?? relative,
+      bytes: file.bytes,
+      contentType: contentTypeFor(relative),
+      change: previous ? 'modified' : 'created',
+      url: artifactUrl(options.scope, path)
+    });
+  }
+
+  return artifacts.sort((left, right) => left.path.localeCompare(right.path));
+}
+
+export function artifactUrl(scope: string, path: string): string {
+  return `/api/artifacts/${scope}/${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+// Returns the workspace-relative path, or undefined when it would escape the workspace or is not
+// valid percent-encoding. Decoding can produce separators (%2F), so pieces are checked after it.
+export function parseArtifactPath(segments: string[]): string | undefined {
+  let decoded: string[];
+  try {
+    decoded = segments.flatMap((segment) => decodeURIComponent(segment).split(/[/\\]/));
+  } catch {
+    return undefined;
+  }
+  if (decoded.length === 0 || decoded.some((segment) => !segment || segment === '.' || segment === '..')) {
+    return undefined;
+  }
+  return decoded.join('/');
+}
+
+export function contentTypeFor(path: string): string {
+  const extension = path.toLowerCase().split('.').pop() ?? '';
+  return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+}
@@ -0,0 +1,162 @@
+/// <reference types="@cloudflare/workers-types" />
+import { DurableObject, waitUntil } from 'cloudflare:workers';
+import type { TerminalBroadcastStatus } from './types';
+
+// Enough for a screenful or two, so a late viewer doesn't join to a blank terminal.
+const BROADCAST_SCROLLBACK_BYTES = 64 * 1024;
+
+// Who may publish to or end a broadcast. The broadcast ID is public (it is in the spectate link) and
+// the terminal manifest lives in the sandbox, where its owner's shell can edit it, so neither is proof.
+// The participant ID comes from the signed cookie and the sandbox ID is derived from it.
+export type BroadcastOwner = {
+  participantId: string;
+  sandboxId: string;
+  sessionId: string;
+};
+
+type BroadcastInfo = {
+  owner: BroadcastOwner;
+  terminal: string;
+  scope: string;
+  startedAt: string;
+};
+
+// One instance per broadcast (addressed by its unguessable ID, which is the only credential a
+// viewer needs). Viewers hold hibernatable WebSockets; anything they send is dropped.
+export class TerminalBroadcast extends DurableObject {
+  private info: BroadcastInfo | undefined;
+  private scrollback: ArrayBuffer[] = [];
+  private scrollbackBytes = 0;
+
+  constructor(ctx: DurableObjectState, env: Cloudflare.Env) {
+    super(ctx, env);
+    void ctx.blockConcurrencyWhile(async () => {
+      this.info = await ctx.storage.get<BroadcastInfo>('info');
+    });
+  }
+
+  // Only the first open wins, so a broadcast ID can't be claimed by someone who learned it later.
+  async open(info: BroadcastInfo): Promise<boolean> {
+    if (this.info) return isOwner(this.info, info.owner);
+    this.info = info;
+    await this.ctx.storage.put('info', info);
+    return true;
+  }
+
+  async close(owner: BroadcastOwner): Promise<boolean> {
+    if (!this.info || !isOwner(this.info, owner)) return false;
+    this.info = undefined;
+    await this.ctx.storage.delete('info');
+    this.scrollback = [];
+    this.scrollbackBytes = 0;
+    for (const viewer of this.ctx.getWebSockets()) {
+      viewer.close(1000, 'Broadcast ended');
+    }
+    return true;
+  }
+
+  publish(owner: BroadcastOwner, frame: ArrayBuffer): void {
+    if (!this.info || !isOwner(this.info, owner)) return;
+
+    this.scrollback.push(frame);
+    this.scrollbackBytes += frame.byteLength;
+    while (this.scrollbackBytes > BROADCAST_SCROLLBACK_BYTES && this.scrollback.length > 1) {
+      this.scrollbackBytes -= this.scrollback.shift()?.byteLength ?? 0;
+    }
+
+    for (const viewer of this.ctx.getWebSockets()) {
+      try {
+        viewer.send(frame);
+      } catch {
+        // The viewer is going away; webSocketClose cleans up.
+      }
+    }
+  }
+
+  status(): TerminalBroadcastStatus {
+    const info = this.info;
+    return {
+      live: info !== undefined,
+      terminal: info?.terminal,
+      scope: info?.scope,
+      startedAt: info?.startedAt,
+      viewers: this.ctx.getWebSockets().length
+    };
+  }
+
+  // Viewer connections. The frames match what the sandbox PTY sends, so the regular xterm addon
+  // can render them: the scrollback as binary, then a "ready" control message.
+  async fetch(request: Request): Promise<Response> {
+    if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+      return Response.json({ ok: false, message: 'WebSocket upgrade required.' }, { status: 426 });
+    }
+    if (!this.info) {
+      return Response.json({ ok: false, message: 'This broadcast has ended.' }, { status: 404 });
+    }
+
+    const [client, server] = Object.values(new WebSocketPair());
+    this.ctx.acceptWebSocket(server);
+    for (const frame of this.scrollback) server.send(frame);
+    server.send(JSON.stringify({ type: 'ready' }));
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  webSocketMessage(): void {
+    // Read-only: keystrokes and resizes from viewers never reach the presenter's PTY.
+  }
+
+  webSocketClose(viewer: WebSocket, code: number, reason: string): void {
+    try {
+      viewer.close(code === 1005 || code === 1006 ? 1000 : code, reason);
+    } catch {
+      // Already closed.
+    }
+  }
+}
+
+function isOwner(info: BroadcastInfo, owner: BroadcastOwner): boolean {
+  return (
+    info.owner.participantId === owner.participantId &&
+    info.owner.sandboxId === owner.sandboxId &&
+    info.owner.sessionId === owner.sessionId
+  );
+}
+
+// Forwards a presenter's PTY output to their broadcast. Frames that arrive while a call is in
+// flight are sent together, so a burst of output costs a few calls rather than one per frame.
+export class BroadcastPublisher {
+  private pending: Uint8Array[] = [];
+  private sending = false;
+
+  constructor(
+    private readonly hub: DurableObjectStub<TerminalBroadcast>,
+    private readonly owner: BroadcastOwner
+  ) {}
+
+  output(data: ArrayBuffer) {
+    this.pending.push(new Uint8Array(data));
+    if (!this.sending) this.drain();
+  }
+
+  private drain() {
+    const frames = this.pending;
+    this.pending = [];
+    const joined = new Uint8Array(frames.reduce((total, frame) => total + frame.byteLength, 0));
+    let offset = 0;
+    for (const frame of frames) {
+      joined.set(frame, offset);
+      offset += frame.byteLength;
+    }
+
+    this.sending = true;
+    const sent = this.hub
+      .publish(this.owner, joined.buffer)
+      .catch((error) => console.warn('Terminal broadcast failed', error))
+      .finally(() => {
+        this.sending = false;
+        if (this.pending.length > 0) this.drain();
+      });
+    waitUntil(sent);
+  }
+}
@@ -0,0 +1,110 @@
+import type { CiTestCase } from './types';
+
+const TAP_TEST_POINT = /^(\s*)(not ok|ok)\s+\d+\s*(?:-\s*)?(.*?)(?:\s+#\s*(SKIP|TODO)\b.*)?$/i;
+
+export function parseTapResults(output: string): CiTestCase[] {
+  const lines = output.split(/\r?\n/);
+  const cases: Array<CiTestCase & { indent: number }> = [];
+  let lastIndent = -1;
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const match = TAP_TEST_POINT.exec(lines[index]);
+    if (!match) continue;
+
+    const [, indentText, verdict, rawName, directive] = match;
+    const indent = indentText.length;
+    const testCase: CiTestCase & { indent: number } = {
+      name: rawName.trim() || `test ${cases.length + 1}`,
+      status: directive ? 'skip' : verdict.toLowerCase() === 'ok' ? 'pass' : 'fail',
+      indent
+    };
+
+    // Node's TAP reporter attaches a YAML diagnostics block to each test point.
+    if (lines[index + 1]?.trim() === '---') {
+      let cursor = index + 2;
+      while (cursor < lines.length && lines[cursor].trim() !== '...') {
+        const line = lines[cursor].trim();
+        const duration = /^duration_ms:\s*([\d.]+)/.exec(line);
+        if (duration) testCase.durationMs = Number.parseFloat(duration[1]);
+        const error = /^error:\s*(.+)$/.exec(line);
+        if (error && testCase.status === 'fail') {
+          if (/^\|-?$/.test(error[1].trim())) {
+            const keyIndent = indentOf(lines[cursor]);
+            const block: string[] = [];
+            while (cursor + 1 < lines.length && (!lines[cursor + 1].trim() || indentOf(lines[cursor + 1]) > keyIndent)) {
+              cursor += 1;
+              if (lines[cursor].trim()) block.push(lines[cursor].trim());
+            }
+            testCase.message = block.join('\n');
+          } else {
+            testCase.message = unquoteYaml(error[1]);
+          }
+        }
+        cursor += 1;
+      }
+      index = cursor;
+    }
+
+    // A test point that closes deeper-indented points is a suite wrapper, not a test.
+    if (lastIndent > indent) {
+      lastIndent = indent;
+      continue;
+    }
+
+    lastIndent = indent;
+    cases.push(testCase);
+  }
+
+  return cases.map(({ indent: _indent, ...testCase }) => testCase);
+}
+
+export function parseJunitResults(xml: string): CiTestCase[] {
+  const cases: CiTestCase[] = [];
+  const testCasePattern = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+
+  for (const match of xml.matchAll(testCasePattern)) {
+    const attributes = readXmlAttributes(match[1]);
+    const body = match[2] ?? '';
+    const failure = /<(failure|error)\b([^>]*)>?/.exec(body);
+    const time = attributes.time ? Number.parseFloat(attributes.time) : undefined;
+
+    const testCase: CiTestCase = {
+      name: [attributes.classname, attributes.name].filter(Boolean).join(' › ') || `test ${cases.length + 1}`,
+      status: failure ? 'fail' : /<skipped\b/.test(body) ? 'skip' : 'pass'
+    };
+    if (time !== undefined && Number.isFinite(time)) testCase.durationMs = Math.round(time * 1000 * 100) / 100;
+    if (failure) testCase.message = readXmlAttributes(failure[2]).message ?? failure[1];
+
+    cases.push(testCase);
+  }
+
+  return cases;
+}
+
+function readXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[2]);
+  }
+  return attributes;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number.parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function unquoteYaml(value: string): string {
+  const trimmed = value.trim();
+  if (/^(['"]).*\1$/.test(trimmed)) return trimmed.slice(1, -1);
+  return trimmed;
+}
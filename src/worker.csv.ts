@@ -0,0 +1,169 @@
+import type { CsvColumnProfile, CsvColumnType, CsvProfile } from './types';
+
+// Matches the strings pandas.read_csv treats as missing by default (the common ones, at least).
+const NULL_TOKENS = new Set(['', 'na', 'n/a', 'nan', 'null', 'none', '#n/a', '-nan']);
+const INT_PATTERN = /^[-+]?\d+$/;
+const FLOAT_PATTERN = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i;
+const BOOL_PATTERN = /^(?:true|false)$/i;
+const DATE_PATTERNS = [
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/,
+  /^\d{1,2}\/\d{1,2}\/\d{4}$/
+];
+const CATEGORY_MAX_DISTINCT = 20;
+const TOP_VALUES = 5;
+const SAMPLE_ROWS = 3;
+
+// RFC 4180: quoted fields may contain commas, doubled quotes, and line breaks.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      index += 1;
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (char === '\r' && text[index + 1] === '\n') index += 1;
+    } else {
+      field += char;
+    }
+    index += 1;
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim().length > 0));
+}
+
+export function profileCsv(csv: string): CsvProfile {
+  const [header = [], ...records] = parseCsv(csv);
+  const warnings: string[] = [];
+  const columns = uniqueColumnNames(header);
+
+  const ragged = records.filter((record) => record.length !== columns.length).length;
+  if (ragged > 0) {
+    warnings.push(
+      `${ragged} row${ragged === 1 ? '' : 's'} had a different field count than the header (${columns.length}).`
+    );
+  }
+
+  const profile = columns.map((name, columnIndex) => {
+    const column = profileColumn(name, records.map((record) => (record[columnIndex] ?? '').trim()));
+    if (column.mixedTypes) {
+      warnings.push(`Column "${name}" mixes numeric and text values, so it was typed as ${column.dtype}.`);
+    }
+    return column;
+  });
+
+  return {
+    rows: records.length,
+    columns,
+    dtypes: Object.fromEntries(profile.map((column) => [column.name, column.dtype])),
+    profile,
+    sample: records
+      .slice(0, SAMPLE_ROWS)
+      .map((record) => Object.fromEntries(columns.map((column, columnIndex) => [column, record[columnIndex] ?? '']))),
+    warnings
+  };
+}
+
+function profileColumn(name: string, cells: string[]): CsvColumnProfile {
+  const values = cells.filter((cell) => !NULL_TOKENS.has(cell.toLowerCase()));
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+
+  const numericCount = values.filter((value) => FLOAT_PATTERN.test(value)).length;
+  const dtype = inferColumnType(values, counts.size);
+  const column: CsvColumnProfile = {
+    name,
+    dtype,
+    nullCount: cells.length - values.length,
+    distinctCount: counts.size
+  };
+
+  if (dtype === 'int64' || dtype === 'float64') {
+    [column.min, column.max] = range(values.map(Number));
+  } else if (dtype === 'datetime') {
+    const [min, max] = range(values.map((value) => Date.parse(value)));
+    column.min = new Date(min).toISOString();
+    column.max = new Date(max).toISOString();
+  } else if (dtype === 'category' || dtype === 'string') {
+    column.topValues = [...counts.entries()]
+      .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
+      .slice(0, TOP_VALUES)
+      .map(([value, count]) => ({ value, count }));
+  }
+
+  if ((dtype === 'string' || dtype === 'category') && numericCount > 0 && numericCount < values.length) {
+    column.mixedTypes = true;
+  }
+
+  return column;
+}
+
+function inferColumnType(values: string[], distinctCount: number): CsvColumnType {
+  if (values.length === 0) return 'empty';
+  if (values.every((value) => INT_PATTERN.test(value))) return 'int64';
+  if (values.every((value) => FLOAT_PATTERN.test(value))) return 'float64';
+  if (values.every((value) => BOOL_PATTERN.test(value))) return 'bool';
+  if (values.every(isDateValue)) return 'datetime';
+
+  // Few distinct values that repeat (regions, quarters, channels) read better as categories.
+  if (distinctCount <= CATEGORY_MAX_DISTINCT && distinctCount < values.length) return 'category';
+  return 'string';
+}
+
+// Uploaded datasets can be large enough to overflow Math.min(...values).
+function range(numbers: number[]): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of numbers) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return [min, max];
+}
+
+function isDateValue(value: string): boolean {
+  return DATE_PATTERNS.some((pattern) => pattern.test(value)) && !Number.isNaN(Date.parse(value));
+}
+
+function uniqueColumnNames(header: string[]): string[] {
+  const seen = new Map<string, number>();
+
+  return header.map((raw, index) => {
+    const base = raw.trim() || `Unnamed: ${index}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}.${count}`;
+  });
+}
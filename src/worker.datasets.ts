@@ -0,0 +1,114 @@
+import type { DatasetFormat } from './types';
+
+export const DATA_DIR = '/workspace/data';
+export const PASTED_DATASET_PATH = `${DATA_DIR}/input.csv`;
+export const DATASET_PROFILE_SCRIPT_PATH = `${DATA_DIR}/.profile_dataset.py`;
+export const DATASET_MAX_BYTES = 20 * 1024 * 1024;
+
+const DATASET_EXTENSIONS: Record<string, DatasetFormat> = {
+  csv: 'csv',
+  json: 'json',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  parquet: 'parquet',
+  xlsx: 'xlsx'
+};
+
+export function datasetFormatFor(name: string): DatasetFormat | undefined {
+  const extension = name.toLowerCase().split('.').pop() ?? '';
+  return DATASET_EXTENSIONS[extension];
+}
+
+export function parseDatasetName(value: string | undefined): string {
+  const base = (value ?? '').split(/[\\/]/).pop()?.trim() ?? '';
+  const name = base.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^[.-]+/, '');
+
+  if (!name || name.length > 96) {
+    throw new Error('Dataset file name must be 1-96 characters.');
+  }
+  if (!datasetFormatFor(name)) {
+    throw new Error(`Unsupported dataset type for ${name}. Use ${Object.keys(DATASET_EXTENSIONS).join(', ')}.`);
+  }
+  return name;
+}
+
+export function pandasLoader(path: string, format: DatasetFormat): string {
+  const quoted = JSON.stringify(path);
+  switch (format) {
+    case 'csv':
+      return `pd.read_csv(${quoted})`;
+    case 'json':
+      return `pd.read_json(${quoted})`;
+    case 'ndjson':
+      return `pd.read_json(${quoted}, lines=True)`;
+    case 'parquet':
+      return `pd.read_parquet(${quoted})`;
+    case 'xlsx':
+      return `pd.read_excel(${quoted})`;
+  }
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Produces the same shape as profileCsv for formats only pandas can read (Parquet, Excel, JSON).
+export const DATASET_PROFILE_SCRIPT = `import json
+import sys
+
+import pandas as pd
+
+path, fmt = sys.argv[1], sys.argv[2]
+loaders = {
+    "csv": lambda: pd.read_csv(path),
+    "json": lambda: pd.read_json(path),
+    "ndjson": lambda: pd.read_json(path, lines=True),
+    "parquet": lambda: pd.read_parquet(path),
+    "xlsx": lambda: pd.read_excel(path),
+}
+df = loaders[fmt]()
+df.columns = [str(column) for column in df.columns]
+
+profile = []
+for name in df.columns:
+    series = df[name]
+    values = series.dropna()
+    distinct = int(values.nunique())
+    if pd.api.types.is_bool_dtype(series):
+        dtype = "bool"
+    elif pd.api.types.is_integer_dtype(series):
+        dtype = "int64"
+    elif pd.api.types.is_float_dtype(series):
+        dtype = "float64"
+    elif pd.api.types.is_datetime64_any_dtype(series):
+        dtype = "datetime"
+    elif len(values) == 0:
+        dtype = "empty"
+    elif distinct <= 20 and distinct < len(values):
+        dtype = "category"
+    else:
+        dtype = "string"
+
+    column = {"name": name, "dtype": dtype, "nullCount": int(series.isna().sum()), "distinctCount": distinct}
+    if dtype in ("int64", "float64", "datetime") and len(values) > 0:
+        low, high = values.min(), values.max()
+        column["min"] = low.isoformat() if dtype == "datetime" else float(low)
+        column["max"] = high.isoformat() if dtype == "datetime" else float(high)
+    elif dtype in ("category", "string"):
+        counts = values.astype(str).value_counts().head(5)
+        column["topValues"] = [{"value": value, "count": int(count)} for value, count in counts.items()]
+    profile.append(column)
+
+print(json.dumps({
+    "rows": int(len(df)),
+    "columns": list(df.columns),
+    "dtypes": {column["name"]: column["dtype"] for column in profile},
+    "profile": profile,
+    "sample": df.head(3).astype(str).to_dict(orient="records"),
+    "warnings": [],
+}))
+`;
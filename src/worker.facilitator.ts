@@ -0,0 +1,146 @@
+/// <reference types="@cloudflare/workers-types" />
+import { DurableObject } from 'cloudflare:workers';
+import type { FacilitatorOverview, FacilitatorParticipant, FacilitatorRun } from './types';
+import { toRunSummary, type RunSummaryRow } from './worker.history';
+import { participantSandboxId, participantSandboxScopes } from './worker.participants';
+
+export const WORKSHOP_ROSTER_NAME = 'workshop';
+
+const ROSTER_RETAINED_RUNS = 5000;
+const ROSTER_RECENT_FAILURES = 25;
+
+type RosterRunRow = RunSummaryRow & {
+  participant_id: string;
+  sandbox_id: string;
+};
+
+type RosterParticipantRow = {
+  participant_id: string;
+  last_seen_at: string;
+  runs: number;
+  failures: number;
+};
+
+// Participant histories live in one RunHistory object each, so the room-wide view keeps its own
+// summary copy of every run. Full results stay in the participant's history.
+export class WorkshopRoster extends DurableObject {
+  constructor(ctx: DurableObjectState, env: Cloudflare.Env) {
+    super(ctx, env);
+    ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS runs (
+      id TEXT PRIMARY KEY,
+      participant_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      target_id TEXT NOT NULL,
+      sandbox_id TEXT NOT NULL,
+      ok INTEGER NOT NULL,
+      summary TEXT NOT NULL,
+      exit_code INTEGER,
+      started_at TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL
+    )`);
+    ctx.storage.sql.exec('CREATE INDEX IF NOT EXISTS runs_participant ON runs (participant_id, started_at)');
+  }
+
+  record(run: FacilitatorRun): void {
+    const sql = this.ctx.storage.sql;
+    sql.exec(
+      `INSERT INTO runs (id, participant_id, kind, target_id, sandbox_id, ok, summary, exit_code, started_at, duration_ms)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      run.id,
+      run.participantId,
+      run.kind,
+      run.targetId,
+      run.sandboxId,
+      run.ok ? 1 : 0,
+      run.summary,
+      run.exitCode ?? null,
+      run.startedAt,
+      run.durationMs
+    );
+    sql.exec(
+      'DELETE FROM runs WHERE id NOT IN (SELECT id FROM runs ORDER BY started_at DESC LIMIT ?)',
+      ROSTER_RETAINED_RUNS
+    );
+  }
+
+  overview(): FacilitatorOverview {
+    const sql = this.ctx.storage.sql;
+    const participants = sql
+      .exec<RosterParticipantRow>(
+        `SELECT participant_id, MAX(started_at) AS last_seen_at, COUNT(*) AS runs, SUM(1 - ok) AS failures
+         FROM runs GROUP BY participant_id ORDER BY last_seen_at DESC`
+      )
+      .toArray();
+    const latest = sql
+      .exec<RosterRunRow>(
+        `SELECT * FROM (
+           SELECT *, ROW_NUMBER() OVER (
+             PARTITION BY participant_id, kind, target_id ORDER BY started_at DESC
+           ) AS position
+           FROM runs
+         ) WHERE position = 1 ORDER BY kind, target_id`
+      )
+      .toArray()
+      .map(toFacilitatorRun);
+    const recentFailures = sql
+      .exec<RosterRunRow>('SELECT * FROM runs WHERE ok = 0 ORDER BY started_at DESC LIMIT ?', ROSTER_RECENT_FAILURES)
+      .toArray()
+      .map(toFacilitatorRun);
+
+    return {
+      participants: participants.map((row) =>
+        toFacilitatorParticipant(row, latest.filter((run) => run.participantId === row.participant_id))
+      ),
+      recentFailures
+    };
+  }
+}
+
+function toFacilitatorParticipant(row: RosterParticipantRow, latest: FacilitatorRun[]): FacilitatorParticipant {
+  const participant = { id: row.participant_id };
+
+  return {
+    id: row.participant_id,
+    lastSeenAt: row.last_seen_at,
+    runs: row.runs,
+    failures: row.failures,
+    latest,
+    sandboxes: participantSandboxScopes.map((scope) => {
+      const id = participantSandboxId(participant, scope);
+      const lastUsedAt = latest
+        .filter((run) => run.sandboxId === id)
+        .map((run) => run.startedAt)
+        .sort()
+        .at(-1);
+      return { id, scope, lastUsedAt };
+    })
+  };
+}
+
+function toFacilitatorRun(row: RosterRunRow): FacilitatorRun {
+  return {
+    ...toRunSummary(row),
+    participantId: row.participant_id,
+    sandboxId: row.sandbox_id
+  };
+}
+
+// Compares digests rather than the tokens, so the check takes the same time whatever is presented.
+export async function matchesFacilitatorToken(request: Request, token: string): Promise<boolean> {
+  const header = request.headers.get('authorization') ?? '';
+  const presented = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!presented) return false;
+
+  const encoder = new TextEncoder();
+  const [expected, actual] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(token)),
+    crypto.subtle.digest('SHA-256', encoder.encode(presented))
+  ]);
+  const expectedBytes = new Uint8Array(expected);
+  const actualBytes = new Uint8Array(actual);
+  let difference = 0;
+  for (let index = 0; index < expectedBytes.length; index += 1) {
+    difference |= expectedBytes[index] ^ actualBytes[index];
+  }
+  return difference === 0;
+}
@@ -0,0 +1,129 @@
+/// <reference types="@cloudflare/workers-types" />
+import { DurableObject } from 'cloudflare:workers';
+import type { RunHistoryEntry, RunHistoryKind, RunHistorySummary } from './types';
+
+const HISTORY_RETAINED_RUNS = 200;
+const HISTORY_TEXT_LIMIT = 64 * 1024;
+const HISTORY_DETAILS_LIMIT = 256 * 1024;
+// Uploads are already in the sandbox; copying them into every history row would blow the row size limit.
+const HISTORY_OMITTED_REQUEST_FIELDS = ['archive', 'bundle'];
+
+export const runHistoryKinds: RunHistoryKind[] = ['example', 'session'];
+
+export type RunSummaryRow = {
+  id: string;
+  kind: RunHistoryKind;
+  target_id: string;
+  ok: number;
+  summary: string;
+  exit_code: number | null;
+  started_at: string;
+  duration_ms: number;
+};
+
+type RunRow = RunSummaryRow & {
+  request: string | null;
+  result: string;
+};
+
+// One instance per participant (addressed by participant ID), so rows need no owner column.
+export class RunHistory extends DurableObject {
+  constructor(ctx: DurableObjectState, env: Cloudflare.Env) {
+    super(ctx, env);
+    ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS runs (
+      id TEXT PRIMARY KEY,
+      kind TEXT NOT NULL,
+      target_id TEXT NOT NULL,
+      ok INTEGER NOT NULL,
+      summary TEXT NOT NULL,
+      exit_code INTEGER,
+      started_at TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      request TEXT,
+      result TEXT NOT NULL
+    )`);
+    ctx.storage.sql.exec('CREATE INDEX IF NOT EXISTS runs_target ON runs (kind, target_id, started_at)');
+  }
+
+  record(entry: RunHistoryEntry): void {
+    const sql = this.ctx.storage.sql;
+    sql.exec(
+      `INSERT INTO runs (id, kind, target_id, ok, summary, exit_code, started_at, duration_ms, request, result)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      entry.id,
+      entry.kind,
+      entry.targetId,
+      entry.ok ? 1 : 0,
+      entry.summary,
+      entry.exitCode ?? null,
+      entry.startedAt,
+      entry.durationMs,
+      entry.request ? JSON.stringify(compactRunRequest(entry.request)) : null,
+      JSON.stringify(compactRunResult(entry.result))
+    );
+    sql.exec(
+      'DELETE FROM runs WHERE id NOT IN (SELECT id FROM runs ORDER BY started_at DESC LIMIT ?)',
+      HISTORY_RETAINED_RUNS
+    );
+  }
+
+  list(filter: { kind?: RunHistoryKind; targetId?: string; limit: number }): RunHistorySummary[] {
+    const rows = this.ctx.storage.sql
+      .exec<RunSummaryRow>(
+        `SELECT id, kind, target_id, ok, summary, exit_code, started_at, duration_ms FROM runs
+         WHERE (?1 IS NULL OR kind = ?1) AND (?2 IS NULL OR target_id = ?2)
+         ORDER BY started_at DESC LIMIT ?3`,
+        filter.kind ?? null,
+        filter.targetId ?? null,
+        filter.limit
+      )
+      .toArray();
+    return rows.map(toRunSummary);
+  }
+
+  get(id: string): RunHistoryEntry | null {
+    const [row] = this.ctx.storage.sql.exec<RunRow>('SELECT * FROM runs WHERE id = ?', id).toArray();
+    if (!row) return null;
+
+    return {
+      ...toRunSummary(row),
+      request: row.request ? (JSON.parse(row.request) as Record<string, unknown>) : undefined,
+      result: JSON.parse(row.result) as RunHistoryEntry['result']
+    };
+  }
+}
+
+export function toRunSummary(row: RunSummaryRow): RunHistorySummary {
+  return {
+    id: row.id,
+    kind: row.kind,
+    targetId: row.target_id,
+    ok: row.ok === 1,
+    summary: row.summary,
+    exitCode: row.exit_code ?? undefined,
+    startedAt: row.started_at,
+    durationMs: row.duration_ms
+  };
+}
+
+function compactRunRequest(request: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(request).filter(([key]) => !HISTORY_OMITTED_REQUEST_FIELDS.includes(key))
+  );
+}
+
+// Keeps rows well under the SQLite row limit; huge details (inline images) are dropped, not truncated.
+function compactRunResult<T extends { output?: string; stderr?: string; details?: unknown }>(result: T): T {
+  const details = result.details === undefined ? undefined : JSON.stringify(result.details);
+  return {
+    ...result,
+    output: truncateText(result.output),
+    stderr: truncateText(result.stderr),
+    details: details && details.length > HISTORY_DETAILS_LIMIT ? { historyTruncated: true } : result.details
+  };
+}
+
+function truncateText(text: string | undefined): string | undefined {
+  if (!text || text.length <= HISTORY_TEXT_LIMIT) return text;
+  return `${text.slice(0, HISTORY_TEXT_LIMIT)}\n… truncated for history (${text.length} characters)`;
+}
@@ -0,0 +1,67 @@
+import type { ExecutionResult } from '@cloudflare/sandbox';
+import type { RichOutput } from './types';
+
+type RunResult = ExecutionResult['results'][number];
+
+const TABLE_MAX_ROWS = 200;
+
+// Picks the richest representation of each MIME bundle, the way a notebook front end would.
+export function normalizeRunOutputs(results: RunResult[]): RichOutput[] {
+  const outputs: RichOutput[] = [];
+
+  for (const result of results) {
+    const chartImage = result.chart?.image;
+    if (result.png || chartImage) {
+      outputs.push({ kind: 'image', mimeType: 'image/png', data: (result.png ?? chartImage) as string });
+    } else if (result.jpeg) {
+      outputs.push({ kind: 'image', mimeType: 'image/jpeg', data: result.jpeg });
+    } else if (result.svg) {
+      outputs.push({ kind: 'svg', svg: result.svg });
+    } else if (result.html) {
+      outputs.push(parseHtmlTable(result.html) ?? { kind: 'html', html: result.html });
+    } else if (result.json !== undefined) {
+      outputs.push({ kind: 'json', value: result.json });
+    } else if (result.markdown || result.text) {
+      outputs.push({ kind: 'text', text: (result.markdown ?? result.text) as string });
+    }
+  }
+
+  return outputs;
+}
+
+// pandas renders DataFrames as a single <table class="dataframe">; anything richer stays HTML.
+export function parseHtmlTable(html: string): RichOutput | undefined {
+  const tables = html.match(/<table\b[\s\S]*?<\/table>/gi);
+  if (!tables || tables.length !== 1 || !/class="[^"]*dataframe/.test(tables[0])) return undefined;
+
+  const rows = [...tables[0].matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)].map((row) =>
+    [...row[1].matchAll(/<(th|td)\b[^>]*>([\s\S]*?)<\/\1>/gi)].map((cell) => cellText(cell[2]))
+  );
+  if (rows.length === 0) return undefined;
+
+  const headMatch = /<thead\b[\s\S]*?<\/thead>/i.exec(tables[0]);
+  const headerRowCount = headMatch ? (headMatch[0].match(/<tr\b/gi) ?? []).length : 1;
+  // A named index adds a second header row whose first cell is the index name.
+  const header = [...rows[0]];
+  if (headerRowCount > 1 && !header[0]) header[0] = rows[headerRowCount - 1][0] ?? '';
+  const body = rows.slice(headerRowCount);
+
+  return {
+    kind: 'table',
+    columns: header,
+    rows: body.slice(0, TABLE_MAX_ROWS),
+    truncated: body.length > TABLE_MAX_ROWS
+  };
+}
+
+function cellText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
@@ -0,0 +1,120 @@
+/// <reference types="@cloudflare/workers-types" />
+import { examples, sessions } from './workshop';
+
+const PARTICIPANT_COOKIE = 'workshop_participant';
+const PARTICIPANT_COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
+// Public, since it is in this repo: only ever used to sign cookies on local dev hosts.
+export const DEV_PARTICIPANT_SECRET = 'thinking-in-sandboxes-local-dev';
+
+// Every sandbox a participant can own; IDs are derived, so nothing needs to be stored.
+// Sessions that run their own command get a sandbox; the rest borrow their exercise's.
+export const participantSandboxScopes: string[] = [
+  ...sessions.filter((session) => session.runner.kind === 'command').map((session) => `session-${session.id}`),
+  ...examples.map((example) => example.id),
+  'terminal'
+];
+
+export type SandboxScope = string;
+
+export type Participant = {
+  id: string;
+  setCookie?: string;
+};
+
+export async function resolveParticipant(request: Request, secret: string): Promise<Participant> {
+  const key = await importSigningKey(secret);
+  const cookieValue = readCookie(request.headers.get('cookie'), PARTICIPANT_COOKIE);
+
+  if (cookieValue) {
+    const [id, signature] = cookieValue.split('.');
+    if (id && signature && /^[a-f0-9]{12}$/.test(id) && (await verify(key, id, signature))) {
+      return { id };
+    }
+  }
+
+  const id = randomParticipantId();
+  const signature = await sign(key, id);
+  const secure = new URL(request.url).protocol === 'https:' ? '; Secure' : '';
+
+  return {
+    id,
+    setCookie: `${PARTICIPANT_COOKIE}=${id}.${signature}; Path=/; Max-Age=${PARTICIPANT_COOKIE_MAX_AGE}; HttpOnly; SameSite=Lax${secure}`
+  };
+}
+
+export function participantSandboxId(participant: Participant, scope: SandboxScope): string {
+  // Sandbox IDs end up in preview hostnames, so keep them short and DNS-safe.
+  return `workshop-${scope}-${participant.id}`;
+}
+
+export function participantSandboxScope(participant: Participant, sandboxId: string): SandboxScope | undefined {
+  return participantSandboxScopes.find((scope) => participantSandboxId(participant, scope) === sandboxId);
+}
+
+export function isParticipantSandboxId(participant: Participant, sandboxId: string): boolean {
+  return participantSandboxScope(participant, sandboxId) !== undefined;
+}
+
+export function withParticipantCookie(response: Response, participant: Participant): Response {
+  if (!participant.setCookie || response.webSocket) return response;
+
+  const withCookie = new Response(response.body, response);
+  withCookie.headers.append('set-cookie', participant.setCookie);
+  return withCookie;
+}
+
+function readCookie(header: string | null, name: string): string | undefined {
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const [rawName, ...rest] = part.trim().split('=');
+    if (rawName === name) return rest.join('=');
+  }
+
+  return undefined;
+}
+
+function randomParticipantId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(6));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function importSigningKey(secret: string): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+async function sign(key: CryptoKey, value: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+async function verify(key: CryptoKey, value: string, signature: string): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify('HMAC', key, fromBase64Url(signature), new TextEncoder().encode(value));
+  } catch {
+    return false;
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes.buffer;
+}
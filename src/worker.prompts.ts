@@ -0,0 +1,35 @@
+import { aiModelById, defaultAiModelId, type AiModelDefinition, type PromptTemplate } from './workshop';
+
+export type RenderedPrompt = {
+  system: string;
+  user: string;
+};
+
+export function resolveAiModel(requested: string | undefined): AiModelDefinition {
+  const id = requested?.trim() || defaultAiModelId;
+  const model = aiModelById[id];
+  if (!model) {
+    throw new Error(`Unsupported model: ${id}. Use one of ${Object.keys(aiModelById).join(', ')}.`);
+  }
+  return model;
+}
+
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  values: Record<string, string | number>
+): RenderedPrompt {
+  return {
+    system: fillPlaceholders(template.system, values),
+    user: fillPlaceholders(template.user, values)
+  };
+}
+
+// Single pass, so placeholder-like text inside substituted code or stderr is left alone.
+export function fillPlaceholders(text: string, values: Record<string, string | number>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+    if (!(name in values)) {
+      throw new Error(`Prompt template references unknown placeholder {{${name}}}.`);
+    }
+    return String(values[name]);
+  });
+}
@@ -0,0 +1,229 @@
+/// <reference types="@cloudflare/workers-types" />
+import { DurableObject, waitUntil } from 'cloudflare:workers';
+import type { TerminalRecordingSummary } from './types';
+
+const RECORDINGS_RETAINED = 50;
+// A runaway `yes` would otherwise fill the object; later events are dropped and the recording is marked truncated.
+const RECORDING_MAX_BYTES = 2 * 1024 * 1024;
+const RECORDING_FLUSH_BYTES = 32 * 1024;
+const RECORDING_FLUSH_MS = 2000;
+
+type RecordingRow = {
+  id: string;
+  scope: string;
+  sandbox_id: string;
+  session_id: string;
+  terminal: string;
+  started_at: string;
+  ended_at: string | null;
+  width: number;
+  height: number;
+  bytes: number;
+  truncated: number;
+};
+
+type RecordingStart = Pick<
+  TerminalRecordingSummary,
+  'id' | 'scope' | 'sandboxId' | 'sessionId' | 'terminal' | 'startedAt' | 'width' | 'height'
+>;
+
+// One instance per participant, like RunHistory. Each PTY connection is one asciicast v2 recording,
+// stored as its header row plus chunks of newline-delimited event lines.
+export class TerminalRecordings extends DurableObject {
+  constructor(ctx: DurableObjectState, env: Cloudflare.Env) {
+    super(ctx, env);
+    ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS recordings (
+      id TEXT PRIMARY KEY,
+      scope TEXT NOT NULL,
+      sandbox_id TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      terminal TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      ended_at TEXT,
+      width INTEGER NOT NULL,
+      height INTEGER NOT NULL,
+      bytes INTEGER NOT NULL DEFAULT 0,
+      truncated INTEGER NOT NULL DEFAULT 0
+    )`);
+    ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS recording_chunks (
+      recording_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      events TEXT NOT NULL,
+      PRIMARY KEY (recording_id, seq)
+    )`);
+  }
+
+  start(recording: RecordingStart): void {
+    const sql = this.ctx.storage.sql;
+    sql.exec(
+      `INSERT INTO recordings (id, scope, sandbox_id, session_id, terminal, started_at, width, height)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      recording.id,
+      recording.scope,
+      recording.sandboxId,
+      recording.sessionId,
+      recording.terminal,
+      recording.startedAt,
+      recording.width,
+      recording.height
+    );
+    sql.exec(
+      `DELETE FROM recording_chunks WHERE recording_id NOT IN
+       (SELECT id FROM recordings ORDER BY started_at DESC LIMIT ?)`,
+      RECORDINGS_RETAINED
+    );
+    sql.exec(
+      'DELETE FROM recordings WHERE id NOT IN (SELECT id FROM recordings ORDER BY started_at DESC LIMIT ?)',
+      RECORDINGS_RETAINED
+    );
+  }
+
+  append(id: string, seq: number, events: string, truncated: boolean): void {
+    const sql = this.ctx.storage.sql;
+    if (events) {
+      sql.exec('INSERT INTO recording_chunks (recording_id, seq, events) VALUES (?, ?, ?)', id, seq, events);
+    }
+    sql.exec(
+      'UPDATE recordings SET bytes = bytes + ?, truncated = MAX(truncated, ?) WHERE id = ?',
+      events.length,
+      truncated ? 1 : 0,
+      id
+    );
+  }
+
+  finish(id: string, endedAt: string): void {
+    this.ctx.storage.sql.exec('UPDATE recordings SET ended_at = ? WHERE id = ?', endedAt, id);
+  }
+
+  list(filter: { scope?: string; limit: number }): TerminalRecordingSummary[] {
+    return this.ctx.storage.sql
+      .exec<RecordingRow>(
+        `SELECT * FROM recordings WHERE (?1 IS NULL OR scope = ?1) ORDER BY started_at DESC LIMIT ?2`,
+        filter.scope ?? null,
+        filter.limit
+      )
+      .toArray()
+      .map(toRecordingSummary);
+  }
+
+  // The full .cast file: the asciicast v2 header line, then one JSON array per event.
+  cast(id: string): { recording: TerminalRecordingSummary; cast: string } | null {
+    const sql = this.ctx.storage.sql;
+    const [row] = sql.exec<RecordingRow>('SELECT * FROM recordings WHERE id = ?', id).toArray();
+    if (!row) return null;
+
+    const recording = toRecordingSummary(row);
+    const header = JSON.stringify({
+      version: 2,
+      width: recording.width,
+      height: recording.height,
+      timestamp: Math.floor(Date.parse(recording.startedAt) / 1000),
+      title: `${recording.terminal} (${recording.scope})`,
+      env: { TERM: 'xterm-256color', SHELL: '/bin/bash' }
+    });
+    const chunks = sql
+      .exec<{ events: string }>('SELECT events FROM recording_chunks WHERE recording_id = ? ORDER BY seq', id)
+      .toArray()
+      .map((chunk) => chunk.events);
+
+    return { recording, cast: [header, ...chunks].join('\n') + '\n' };
+  }
+}
+
+function toRecordingSummary(row: RecordingRow): TerminalRecordingSummary {
+  return {
+    id: row.id,
+    scope: row.scope,
+    sandboxId: row.sandbox_id,
+    sessionId: row.session_id,
+    terminal: row.terminal,
+    startedAt: row.started_at,
+    endedAt: row.ended_at ?? undefined,
+    width: row.width,
+    height: row.height,
+    bytes: row.bytes,
+    truncated: row.truncated === 1
+  };
+}
+
+// Buffers asciicast events from one PTY connection and writes them to the participant's
+// TerminalRecordings in chunks, so a busy terminal costs one storage call per chunk, not per frame.
+export class CastRecorder {
+  private readonly startedMs = Date.now();
+  private readonly outputDecoder = new TextDecoder();
+  private readonly inputDecoder = new TextDecoder();
+  private lines: string[] = [];
+  private pendingBytes = 0;
+  private totalBytes = 0;
+  private lastFlushMs = this.startedMs;
+  private seq = 0;
+  private truncated = false;
+  private writes: Promise<void>;
+
+  constructor(
+    private readonly store: DurableObjectStub<TerminalRecordings>,
+    readonly recording: RecordingStart
+  ) {
+    this.writes = store.start(recording).catch((error) => this.warn(error));
+    waitUntil(this.writes);
+  }
+
+  output(data: ArrayBuffer) {
+    this.event('o', this.outputDecoder.decode(data, { stream: true }));
+  }
+
+  input(data: ArrayBuffer | string) {
+    this.event('i', typeof data === 'string' ? data : this.inputDecoder.decode(data, { stream: true }));
+  }
+
+  resize(cols: number, rows: number) {
+    this.event('r', `${cols}x${rows}`);
+  }
+
+  close() {
+    this.flush();
+    const endedAt = new Date().toISOString();
+    this.writes = this.writes.then(() => this.store.finish(this.recording.id, endedAt)).catch((error) => this.warn(error));
+    waitUntil(this.writes);
+  }
+
+  private event(code: 'o' | 'i' | 'r', data: string) {
+    if (!data || this.truncated) return;
+
+    const line = JSON.stringify([Number(((Date.now() - this.startedMs) / 1000).toFixed(6)), code, data]);
+    if (this.totalBytes + line.length > RECORDING_MAX_BYTES) {
+      this.truncated = true;
+      this.flush();
+      return;
+    }
+
+    this.lines.push(line);
+    this.pendingBytes += line.length;
+    this.totalBytes += line.length;
+    if (this.pendingBytes >= RECORDING_FLUSH_BYTES || Date.now() - this.lastFlushMs >= RECORDING_FLUSH_MS) {
+      this.flush();
+    }
+  }
+
+  private flush() {
+    const events = this.lines.join('\n');
+    const seq = this.seq;
+    const truncated = this.truncated;
+    this.lines = [];
+    this.pendingBytes = 0;
+    this.lastFlushMs = Date.now();
+    if (!events && !truncated) return;
+
+    this.seq += 1;
+    // Chained so chunks land in order and never before the row that start() creates.
+    this.writes = this.writes
+      .then(() => this.store.append(this.recording.id, seq, events, truncated))
+      .catch((error) => this.warn(error));
+    waitUntil(this.writes);
+  }
+
+  // Recording is a side channel; losing it must never break the terminal itself.
+  private warn(error: unknown) {
+    console.warn('Terminal recording failed', this.recording.id, error);
+  }
+}
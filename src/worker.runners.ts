@@ -0,0 +1,76 @@
+import type { CommandResultParser, CommandRunnerDefinition, ExampleField } from './workshop';
+import { parseTapResults } from './worker.ci';
+import { fillPlaceholders } from './worker.prompts';
+
+export const COMMAND_RUNNER_DIR = '/workspace/exercise';
+export const COMMAND_RUNNER_TIMEOUT_MS = 30_000;
+
+// The field descriptors double as the input schema: undeclared or mistyped values are dropped,
+// so every runner falls back to its defaults rather than failing on a stale or hand-written body.
+export function parseExampleInput(
+  fields: ExampleField[],
+  body: Record<string, unknown> | undefined
+): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  if (!body) return input;
+
+  for (const field of fields) {
+    if (field.kind === 'note') continue;
+    const value = body[field.name];
+
+    switch (field.kind) {
+      case 'select':
+        if (field.options.some((option) => option.value === value)) input[field.name] = value;
+        break;
+      case 'network':
+      case 'limits':
+        if (value && typeof value === 'object' && !Array.isArray(value)) input[field.name] = value;
+        break;
+      default:
+        if (typeof value === 'string') input[field.name] = value;
+    }
+  }
+
+  return input;
+}
+
+export function renderRunnerCommand(
+  definition: CommandRunnerDefinition,
+  fields: ExampleField[],
+  input: Record<string, unknown>
+): string {
+  const values = Object.fromEntries(
+    fields.flatMap((field) =>
+      field.kind === 'note' ? [] : [[field.name, shellQuote(String(input[field.name] ?? ''))]]
+    )
+  );
+  return fillPlaceholders(definition.command, values);
+}
+
+export function parseCommandResult(parser: CommandResultParser, stdout: string): { details?: unknown } {
+  switch (parser) {
+    case 'text':
+      return {};
+    case 'json':
+      try {
+        return { details: JSON.parse(stdout) as unknown };
+      } catch {
+        return { details: { parseError: 'Command output was not valid JSON.' } };
+      }
+    case 'tap':
+      return { details: { testCases: parseTapResults(stdout) } };
+  }
+}
+
+// Setup file paths are relative to the runner directory and may not climb out of it.
+export function runnerFilePath(relativePath: string): string {
+  const segments = relativePath.split('/').filter((segment) => segment && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) {
+    throw new Error(`Invalid runner file path: ${relativePath}`);
+  }
+  return `${COMMAND_RUNNER_DIR}/${segments.join('/')}`;
+}
+
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
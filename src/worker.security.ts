@@ -0,0 +1,454 @@
+import type {
+  NetworkConnectionAttempt,
+  NetworkEgressReport,
+  NetworkEnforcement,
+  NetworkPolicy,
+  NetworkPolicyMode,
+  ResourceLimitReport,
+  ResourceLimits
+} from './types';
+import { defaultNetworkPolicy, defaultResourceLimits, networkPolicyModes } from './workshop';
+
+export const SECURITY_DIR = '/workspace/security';
+export const SECURITY_SCRATCH_DIR = `${SECURITY_DIR}/scratch`;
+export const LIMITED_RUNNER_PATH = `${SECURITY_DIR}/run_limited.py`;
+export const LIMITED_RUNNER_CONFIG_PATH = `${SECURITY_DIR}/run_limited.json`;
+export const LIMITED_RUNNER_REPORT_PATH = `${SECURITY_DIR}/run_limited.report.json`;
+
+const RESOURCE_LIMIT_BOUNDS: Record<keyof ResourceLimits, [number, number]> = {
+  cpuSeconds: [1, 10],
+  memoryMb: [64, 1024],
+  outputKb: [1, 1024],
+  maxProcesses: [1, 64],
+  wallSeconds: [1, 20]
+};
+
+export function resolveResourceLimits(requested: Partial<ResourceLimits> | undefined): ResourceLimits {
+  const limits = { ...defaultResourceLimits };
+
+  for (const key of Object.keys(RESOURCE_LIMIT_BOUNDS) as Array<keyof ResourceLimits>) {
+    const value = requested?.[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+    const [min, max] = RESOURCE_LIMIT_BOUNDS[key];
+    limits[key] = Math.min(max, Math.max(min, Math.round(value)));
+  }
+
+  return limits;
+}
+
+export function parseResourceReport(content: string | undefined): ResourceLimitReport | undefined {
+  if (!content) return undefined;
+
+  try {
+    return JSON.parse(content) as ResourceLimitReport;
+  } catch {
+    return undefined;
+  }
+}
+
+// Runs the untrusted script as `nobody` (RLIMIT_NPROC is not enforced for root) with rlimits applied
+// before exec, streams capped output, and writes a JSON report describing what containment did.
+// With a network log configured, the child's guard writes attempts to a pipe and this process, still
+// root, appends them to a log the child cannot truncate or rewrite.
+export const LIMITED_RUNNER_SCRIPT = `import json
+import os
+import resource
+import signal
+import subprocess
+import sys
+import threading
+import time
+
+with open(sys.argv[1]) as config_file:
+    config = json.load(config_file)
+
+limits = config["limits"]
+output_limit = limits["outputKb"] * 1024
+state = {"written": 0, "truncated": False, "stderr_tail": b""}
+lock = threading.Lock()
+
+
+def apply_limits():
+    cpu = limits["cpuSeconds"]
+    memory = limits["memoryMb"] * 1024 * 1024
+    resource.setrlimit(resource.RLIMIT_CPU, (cpu, cpu + 1))
+    resource.setrlimit(resource.RLIMIT_AS, (memory, memory))
+    resource.setrlimit(resource.RLIMIT_NPROC, (limits["maxProcesses"], limits["maxProcesses"]))
+    os.setsid()
+    if os.getuid() == 0:
+        os.setgroups([])
+        os.setgid(65534)
+        os.setuid(65534)
+
+
+def kill_group(child):
+    try:
+        os.killpg(child.pid, signal.SIGKILL)
+    except (ProcessLookupError, PermissionError):
+        pass
+
+
+def collect_network_log(source, path):
+    with os.fdopen(source, "rb") as pipe, open(path, "a") as log_file:
+        for line in pipe:
+            try:
+                entry = json.loads(line)
+                attempt = {
+                    "host": str(entry["host"]),
+                    "port": entry["port"] if isinstance(entry["port"], int) else None,
+                    "allowed": entry["allowed"] is True,
+                    "via": str(entry["via"]),
+                }
+            except (ValueError, KeyError, TypeError):
+                continue
+            log_file.write(json.dumps(attempt) + "\\n")
+            log_file.flush()
+
+
+def pump(source, sink, child, is_stderr):
+    for chunk in iter(lambda: source.read1(4096), b""):
+        with lock:
+            if is_stderr:
+                state["stderr_tail"] = (state["stderr_tail"] + chunk)[-4096:]
+            remaining = output_limit - state["written"]
+            if remaining <= 0:
+                continue
+            if len(chunk) > remaining:
+                chunk = chunk[:remaining]
+                state["truncated"] = True
+            state["written"] += len(chunk)
+        sink.write(chunk)
+        sink.flush()
+        if state["truncated"]:
+            kill_group(child)
+
+
+child_env = dict(os.environ, **config.get("env", {}))
+pass_fds = ()
+if config.get("networkLog"):
+    log_read, log_write = os.pipe()
+    child_env["WORKSHOP_NETWORK_LOG_FD"] = str(log_write)
+    pass_fds = (log_write,)
+
+started = time.monotonic()
+child = subprocess.Popen(
+    [sys.executable, config["script"]],
+    cwd=config["cwd"],
+    env=child_env,
+    stdout=subprocess.PIPE,
+    stderr=subprocess.PIPE,
+    pass_fds=pass_fds,
+    preexec_fn=apply_limits,
+)
+pumps = [
+    threading.Thread(target=pump, args=(child.stdout, sys.stdout.buffer, child, False)),
+    threading.Thread(target=pump, args=(child.stderr, sys.stderr.buffer, child, True)),
+]
+if pass_fds:
+    os.close(log_write)
+    pumps.append(threading.Thread(target=collect_network_log, args=(log_read, config["networkLog"])))
+for thread in pumps:
+    thread.start()
+
+timed_out = False
+try:
+    child.wait(timeout=limits["wallSeconds"])
+except subprocess.TimeoutExpired:
+    timed_out = True
+    kill_group(child)
+    child.wait()
+
+for thread in pumps:
+    thread.join(timeout=2)
+
+wall_ms = (time.monotonic() - started) * 1000
+usage = resource.getrusage(resource.RUSAGE_CHILDREN)
+cpu_ms = (usage.ru_utime + usage.ru_stime) * 1000
+stderr_tail = state["stderr_tail"].decode("utf-8", "replace")
+signal_number = -child.returncode if child.returncode < 0 else None
+
+limit_hit = None
+if timed_out:
+    limit_hit = "wall-time"
+elif state["truncated"]:
+    limit_hit = "output"
+elif signal_number == signal.SIGXCPU or (signal_number == signal.SIGKILL and cpu_ms >= limits["cpuSeconds"] * 1000):
+    limit_hit = "cpu"
+elif "MemoryError" in stderr_tail or "Cannot allocate memory" in stderr_tail:
+    limit_hit = "memory"
+elif "Resource temporarily unavailable" in stderr_tail or "BlockingIOError" in stderr_tail:
+    limit_hit = "processes"
+
+report = {
+    "limits": limits,
+    "limitHit": limit_hit,
+    "exitCode": child.returncode if child.returncode >= 0 else 128 + signal_number,
+    "signal": signal.Signals(signal_number).name if signal_number else None,
+    "wallTimeMs": round(wall_ms, 1),
+    "cpuTimeMs": round(cpu_ms, 1),
+    "peakMemoryKb": usage.ru_maxrss,
+    "outputBytes": state["written"],
+    "outputTruncated": state["truncated"],
+}
+
+with open(config["report"], "w") as report_file:
+    json.dump(report, report_file)
+
+sys.exit(report["exitCode"])
+`;
+
+export const NETWORK_GUARD_DIR = `${SECURITY_DIR}/netguard`;
+export const NETWORK_LOG_PATH = `${SECURITY_DIR}/network.jsonl`;
+export const EGRESS_STAND_IN_PATH = `${SECURITY_DIR}/stand_in_server.py`;
+export const EGRESS_STAND_IN_PROCESS_ID = 'egress-stand-in';
+const NETWORK_FIREWALL_CHAIN = 'WORKSHOP_EGRESS';
+// `nobody`, which the limited runner drops to before exec.
+const UNTRUSTED_UID = 65534;
+
+// Two ports on one local server: the default allowlist admits the "api" port and leaves the
+// "collector" port blocked, so an exfiltration attempt has somewhere to go without leaving the container.
+export const EGRESS_STAND_IN_PORTS = { api: 9900, collector: 9901 } as const;
+
+const NETWORK_ALLOWLIST_ENTRY = /^[a-z0-9.-]+(?::\d{1,5})?$/;
+const NETWORK_ALLOWLIST_MAX = 20;
+
+export function resolveNetworkPolicy(requested: Partial<NetworkPolicy> | undefined): NetworkPolicy {
+  const mode = networkPolicyModes.includes(requested?.mode as NetworkPolicyMode)
+    ? (requested?.mode as NetworkPolicyMode)
+    : defaultNetworkPolicy.mode;
+  const requestedAllowlist = Array.isArray(requested?.allowlist) ? requested.allowlist : defaultNetworkPolicy.allowlist;
+
+  const allowlist: string[] = [];
+  for (const entry of requestedAllowlist) {
+    if (typeof entry !== 'string') continue;
+    const normalized = entry.trim().toLowerCase();
+    if (!normalized) continue;
+    if (!NETWORK_ALLOWLIST_ENTRY.test(normalized)) {
+      throw new Error(`Invalid allowlist entry "${entry}". Use host or host:port.`);
+    }
+    if (!allowlist.includes(normalized)) allowlist.push(normalized);
+  }
+
+  if (allowlist.length > NETWORK_ALLOWLIST_MAX) {
+    throw new Error(`Allowlist accepts at most ${NETWORK_ALLOWLIST_MAX} entries.`);
+  }
+
+  return { mode, allowlist };
+}
+
+// Env for the limited runner's child. The runner adds WORKSHOP_NETWORK_LOG_FD itself, since the log
+// reaches it through a pipe rather than a file the untrusted uid could write to.
+export function networkGuardEnv(policy: NetworkPolicy, enforcement: NetworkEnforcement): Record<string, string> {
+  return {
+    PYTHONPATH: NETWORK_GUARD_DIR,
+    WORKSHOP_NETWORK_POLICY: JSON.stringify(policy),
+    WORKSHOP_NETWORK_CONTAIN: enforcement === 'kernel' ? '0' : '1'
+  };
+}
+
+// Code-interpreter kernels are already running, so the guard is installed with a preamble instead of env.
+// They run as root, so nothing below the Python runtime can enforce the policy for them.
+export function networkGuardPreamble(policy: NetworkPolicy): string {
+  return `import sys
+sys.path.insert(0, ${JSON.stringify(NETWORK_GUARD_DIR)})
+import workshop_netguard
+workshop_netguard.install(${JSON.stringify(JSON.stringify(policy))}, ${JSON.stringify(NETWORK_LOG_PATH)})
+sys.path.remove(${JSON.stringify(NETWORK_GUARD_DIR)})
+del workshop_netguard`;
+}
+
+// iptables rules for the uid the limited runner drops to, so the policy also holds for curl,
+// os.system, or an interpreter started without the guard. Re-run before every execution: an "open"
+// run has to flush what a stricter one left behind. Fails if the container lacks iptables or NET_ADMIN.
+export function networkFirewallScript(policy: NetworkPolicy): string {
+  const lines = [
+    'set -e',
+    'for table in iptables ip6tables; do',
+    `  $table -N ${NETWORK_FIREWALL_CHAIN} 2>/dev/null || $table -F ${NETWORK_FIREWALL_CHAIN}`,
+    `  $table -C OUTPUT -m owner --uid-owner ${UNTRUSTED_UID} -j ${NETWORK_FIREWALL_CHAIN} 2>/dev/null ||` +
+      ` $table -A OUTPUT -m owner --uid-owner ${UNTRUSTED_UID} -j ${NETWORK_FIREWALL_CHAIN}`,
+    'done'
+  ];
+  if (policy.mode === 'open') return lines.join('\n');
+
+  if (policy.mode === 'allowlist') {
+    lines.push(
+      `iptables -A ${NETWORK_FIREWALL_CHAIN} -p udp --dport 53 -j ACCEPT`,
+      `iptables -A ${NETWORK_FIREWALL_CHAIN} -p tcp --dport 53 -j ACCEPT`
+    );
+    // Entries are validated against NETWORK_ALLOWLIST_ENTRY, so they are safe to interpolate.
+    for (const entry of policy.allowlist) {
+      const [host, port] = entry.split(':');
+      const target = port
+        ? ['tcp', 'udp'].map((protocol) => `-p ${protocol} --dport ${port} -j ACCEPT`)
+        : ['-j ACCEPT'];
+      lines.push(
+        `for address in $(getent ahostsv4 ${host} | awk '{ print $1 }' | sort -u); do`,
+        ...target.map((rule) => `  iptables -A ${NETWORK_FIREWALL_CHAIN} -d "$address" ${rule}`),
+        'done'
+      );
+    }
+  }
+
+  lines.push(
+    `iptables -A ${NETWORK_FIREWALL_CHAIN} -j REJECT`,
+    `ip6tables -A ${NETWORK_FIREWALL_CHAIN} -j REJECT`
+  );
+  return lines.join('\n');
+}
+
+export function parseNetworkLog(
+  policy: NetworkPolicy,
+  enforcement: NetworkEnforcement,
+  content: string | undefined
+): NetworkEgressReport {
+  const attempts: NetworkConnectionAttempt[] = [];
+
+  for (const line of (content ?? '').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      attempts.push(JSON.parse(line) as NetworkConnectionAttempt);
+    } catch {
+      // A run killed mid-write can leave a partial last line.
+    }
+  }
+
+  return { policy, enforcement, attempts, blocked: attempts.filter((attempt) => !attempt.allowed).length };
+}
+
+// The in-process half of the policy: a Python audit hook that checks and logs every lookup and
+// connection. The policy is captured in the hook's closure when it is installed, and later installs
+// are ignored. Code in the same process can still reach native code (ctypes) or other programs, so
+// unless the kernel firewall below covers the process, starting other programs is refused as well.
+export const NETWORK_GUARD_MODULE = `import json
+import os
+import socket
+import sys
+
+_EVENTS = ("socket.getaddrinfo", "socket.connect", "socket.sendto")
+_SPAWN_EVENTS = ("os.system", "os.exec", "os.posix_spawn", "os.spawn", "subprocess.Popen")
+_installed = []
+
+
+def install(policy_json, log_path=None, log_fd=None, contain_processes=True):
+    # Audit hooks can only be added, so even a forced second install could not loosen the first.
+    if _installed:
+        return
+    _installed.append(True)
+
+    policy = json.loads(policy_json)
+    mode = str(policy["mode"])
+    allowlist = tuple(str(entry).partition(":")[::2] for entry in policy.get("allowlist", ()))
+    if log_fd is None and log_path:
+        log_fd = os.open(log_path, os.O_WRONLY | os.O_APPEND | os.O_CREAT, 0o644)
+    resolved = {}
+    dumps = json.dumps
+    write = os.write
+    real_getaddrinfo = socket.getaddrinfo
+
+    def allowed(host, port):
+        if mode == "open":
+            return True
+        if mode == "none":
+            return False
+        names = {str(host).lower(), resolved.get(str(host), "")}
+        for name, entry_port in allowlist:
+            if name in names and (not entry_port or port is None or entry_port == str(port)):
+                return True
+        return False
+
+    def record(host, port, verdict, via):
+        if log_fd is None:
+            return
+        try:
+            port = int(port) if port is not None else None
+        except (TypeError, ValueError):
+            port = None
+        line = dumps({"host": str(host), "port": port, "allowed": verdict, "via": via}) + "\\n"
+        write(log_fd, line.encode())
+
+    def hook(event, args):
+        if contain_processes and mode != "open" and event in _SPAWN_EVENTS:
+            raise PermissionError("starting other programs is blocked by workshop network policy (%s)" % mode)
+        if event not in _EVENTS:
+            return
+        if event == "socket.getaddrinfo":
+            host, port = args[0], args[1]
+            via = "dns"
+        else:
+            address = args[1]
+            if not isinstance(address, tuple) or len(address) < 2:
+                return
+            host, port = address[0], address[1]
+            via = "connect" if event == "socket.connect" else "sendto"
+        if host is None:
+            return
+        verdict = allowed(host, port)
+        record(host, port, verdict, via)
+        if not verdict:
+            raise PermissionError("network egress blocked by workshop policy (%s): %s:%s" % (mode, host, port))
+
+    def tracking_getaddrinfo(host, port, *args, **kwargs):
+        results = real_getaddrinfo(host, port, *args, **kwargs)
+        if isinstance(host, str):
+            for result in results:
+                resolved[str(result[4][0])] = host.lower()
+        return results
+
+    socket.getaddrinfo = tracking_getaddrinfo
+    sys.addaudithook(hook)
+
+
+def install_from_env():
+    policy_json = os.environ.get("WORKSHOP_NETWORK_POLICY")
+    if policy_json:
+        log_fd = os.environ.get("WORKSHOP_NETWORK_LOG_FD")
+        install(
+            policy_json,
+            log_fd=int(log_fd) if log_fd else None,
+            contain_processes=os.environ.get("WORKSHOP_NETWORK_CONTAIN") != "0",
+        )
+`;
+
+export const NETWORK_GUARD_SITECUSTOMIZE = `import workshop_netguard
+
+workshop_netguard.install_from_env()
+`;
+
+export const EGRESS_STAND_IN_SCRIPT = `import json
+import sys
+import threading
+from http.server import BaseHTTPRequestHandler, ThreadingHTTPServer
+
+PORTS = {"api": ${EGRESS_STAND_IN_PORTS.api}, "collector": ${EGRESS_STAND_IN_PORTS.collector}}
+
+
+def handler_for(role):
+    class Handler(BaseHTTPRequestHandler):
+        def respond(self):
+            length = int(self.headers.get("content-length") or 0)
+            body = self.rfile.read(length) if length else b""
+            payload = json.dumps({"server": role, "path": self.path, "receivedBytes": len(body)}).encode()
+            self.send_response(200)
+            self.send_header("content-type", "application/json")
+            self.send_header("content-length", str(len(payload)))
+            self.end_headers()
+            self.wfile.write(payload)
+            print("%s received %s %s (%d bytes)" % (role, self.command, self.path, len(body)), flush=True)
+
+        do_GET = respond
+        do_POST = respond
+
+        def log_message(self, *args):
+            pass
+
+    return Handler
+
+
+servers = [ThreadingHTTPServer(("127.0.0.1", port), handler_for(role)) for role, port in PORTS.items()]
+for server in servers[1:]:
+    threading.Thread(target=server.serve_forever, daemon=True).start()
+print("stand-in servers listening on", PORTS, flush=True)
+sys.stdout.flush()
+servers[0].serve_forever()
+`;
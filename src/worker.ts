@@ -1,14 +1,168 @@
 /// <reference types="@cloudflare/workers-types" />
 import { env as workerEnv } from 'cloudflare:workers';
-import { getSandbox, proxyTerminal, proxyToSandbox, type Sandbox } from '@cloudflare/sandbox';
-import { exampleById, sessionById, type ExampleId, type SessionId } from './workshop';
-import type { ExampleRunResult, SessionRunResult, TerminalBootstrapResult } from './types';
+import {
+  getSandbox,
+  proxyTerminal,
+  proxyToSandbox,
+  streamFile,
+  type CodeContext,
+  type ExecOptions,
+  type ExecResult,
+  type ExecutionResult,
+  type Process,
+  type Sandbox
+} from '@cloudflare/sandbox';
+import {
+  codeLanguages,
+  exampleById,
+  maxRepairAttempts,
+  previewPorts,
+  runnableLanguages,
+  sessionById,
+  type AiModelDefinition,
+  type BuiltinRunnerKind,
+  type CodeLanguageOption,
+  type CommandRunnerDefinition,
+  type ExampleDefinition,
+  type ExampleField,
+  type ExampleId,
+  type PreviewPort,
+  type SessionDefinition,
+  type SessionId
+} from './workshop';
+import { createAiProvider, type AiProvider, type AiTask } from './worker.ai';
+import {
+  COMMAND_RUNNER_DIR,
+  COMMAND_RUNNER_TIMEOUT_MS,
+  parseCommandResult,
+  parseExampleInput,
+  renderRunnerCommand,
+  runnerFilePath,
+  shellQuote
+} from './worker.runners';
+import { runHistoryKinds, type RunHistory } from './worker.history';
+import { WORKSHOP_ROSTER_NAME, matchesFacilitatorToken, type WorkshopRoster } from './worker.facilitator';
+import { CastRecorder, type TerminalRecordings } from './worker.recordings';
+import { BroadcastPublisher, type BroadcastOwner, type TerminalBroadcast } from './worker.broadcast';
+import {
+  STATIC_ANALYSIS_BLOCKED_EXIT_CODE,
+  STATIC_ANALYSIS_DIR,
+  STATIC_ANALYSIS_INPUT_PATH,
+  STATIC_ANALYSIS_SCRIPT,
+  STATIC_ANALYSIS_SCRIPT_PATH,
+  analysisBlockedMessage,
+  parseAnalysisOutput,
+  resolveAnalysisPolicy
+} from './worker.analysis';
+import { parseJunitResults, parseTapResults } from './worker.ci';
+import {
+  ARTIFACT_MANIFEST_PATH,
+  WORKSPACE_ROOT,
+  contentTypeFor,
+  diffSnapshots,
+  parseArtifactPath,
+  parseSnapshot,
+  snapshotCommand
+} from './worker.artifacts';
+import { profileCsv } from './worker.csv';
+import {
+  DATASET_MAX_BYTES,
+  DATASET_PROFILE_SCRIPT,
+  DATASET_PROFILE_SCRIPT_PATH,
+  DATA_DIR,
+  PASTED_DATASET_PATH,
+  bytesToBase64,
+  datasetFormatFor,
+  pandasLoader,
+  parseDatasetName
+} from './worker.datasets';
+import { normalizeRunOutputs } from './worker.outputs';
+import { renderPromptTemplate, resolveAiModel } from './worker.prompts';
+import {
+  EGRESS_STAND_IN_PATH,
+  EGRESS_STAND_IN_PORTS,
+  EGRESS_STAND_IN_PROCESS_ID,
+  EGRESS_STAND_IN_SCRIPT,
+  LIMITED_RUNNER_CONFIG_PATH,
+  LIMITED_RUNNER_PATH,
+  LIMITED_RUNNER_REPORT_PATH,
+  LIMITED_RUNNER_SCRIPT,
+  NETWORK_GUARD_DIR,
+  NETWORK_GUARD_MODULE,
+  NETWORK_GUARD_SITECUSTOMIZE,
+  NETWORK_LOG_PATH,
+  SECURITY_DIR,
+  SECURITY_SCRATCH_DIR,
+  networkFirewallScript,
+  networkGuardEnv,
+  networkGuardPreamble,
+  parseNetworkLog,
+  parseResourceReport,
+  resolveNetworkPolicy,
+  resolveResourceLimits
+} from './worker.security';
+import type {
+  ArtifactInfo,
+  CiTestCase,
+  CiTestCommand,
+  CodeLanguage,
+  ContentBlockRunResult,
+  CsvProfile,
+  DatasetFormat,
+  DatasetInfo,
+  ExampleRunResult,
+  ExampleStreamEvent,
+  NetworkEgressReport,
+  NetworkEnforcement,
+  NetworkPolicy,
+  NotebookCellResult,
+  NotebookContextInfo,
+  NotebookLanguage,
+  PreviewInfo,
+  RepairAttempt,
+  RunHistoryEntry,
+  RunHistoryKind,
+  ResourceLimits,
+  SandboxInspection,
+  SandboxSummary,
+  SessionRunResult,
+  StaticAnalysisPolicy,
+  StaticAnalysisReport,
+  TerminalInfo,
+  TerminalBroadcastStatus,
+  TerminalRecordingSummary
+} from './types';
+import {
+  DEV_PARTICIPANT_SECRET,
+  isParticipantSandboxId,
+  participantSandboxId,
+  participantSandboxScope,
+  participantSandboxScopes,
+  resolveParticipant,
+  withParticipantCookie,
+  type Participant,
+  type SandboxScope
+} from './worker.participants';
 
 export { Sandbox } from '@cloudflare/sandbox';
+export { RunHistory } from './worker.history';
+export { WorkshopRoster } from './worker.facilitator';
+export { TerminalRecordings } from './worker.recordings';
+export { TerminalBroadcast } from './worker.broadcast';
 
 type Env = {
   Sandbox: DurableObjectNamespace<Sandbox>;
+  RunHistory: DurableObjectNamespace<RunHistory>;
+  WorkshopRoster: DurableObjectNamespace<WorkshopRoster>;
+  TerminalRecordings: DurableObjectNamespace<TerminalRecordings>;
+  TerminalBroadcast: DurableObjectNamespace<TerminalBroadcast>;
   AI: Ai;
+  AI_PROVIDER?: string;
+  AI_BASE_URL?: string;
+  AI_API_KEY?: string;
+  AI_MODEL?: string;
+  PARTICIPANT_SECRET?: string;
+  FACILITATOR_TOKEN?: string;
   ASSETS: {
     fetch: (request: Request | URL | string, init?: RequestInit) => Promise<Response>;
   };
@@ -16,12 +170,134 @@ type Env = {
 
 type ExampleRequestBody = {
   input?: string;
+  dataset?: string;
+  language?: CodeLanguage;
   prompt?: string;
+  testCommand?: CiTestCommand;
+  archive?: string;
+  repoUrl?: string;
+  branch?: string;
+  bundle?: string;
+  startCommand?: string;
+  port?: number;
+  previewName?: string;
+  limits?: Partial<ResourceLimits>;
+  network?: Partial<NetworkPolicy>;
+  analysisPolicy?: StaticAnalysisPolicy;
+  repairAttempts?: number;
+  model?: string;
+};
+
+type RepairStep = {
+  ok: boolean;
+  stderr: string;
+  exitCode: number;
+};
+
+type RepairPrompt = {
+  exampleId: ExampleId;
+  language: CodeLanguage;
+  model: AiModelDefinition;
+  // Template values other than the failing attempt's code, stderr, and exit code.
+  values: Record<string, string | number>;
+};
+
+type PreviewRecord = Omit<PreviewInfo, 'status' | 'url'>;
+
+type ContextRecord = Omit<NotebookContextInfo, 'status' | 'lastUsed'>;
+
+type TerminalRecord = Omit<TerminalInfo, 'scope' | 'sandboxId'>;
+
+type TerminalRequestBody = {
+  name?: string;
+  cwd?: string;
+};
+
+type ContextRequestBody = {
+  name?: string;
+  language?: NotebookLanguage;
+  code?: string;
+  network?: Partial<NetworkPolicy>;
+};
+
+type RunObserver = {
+  phase: (label: string) => void;
+  output: (stream: 'stdout' | 'stderr', data: string) => void;
+};
+
+type ExampleRunContext = {
+  request: Request;
+  participant: Participant;
+  observer?: RunObserver;
+};
+
+// Receives the body already narrowed to the example's declared fields.
+type ExampleRunner = (body: ExampleRequestBody, context: ExampleRunContext) => Promise<ExampleRunResult>;
+
+const builtinRunners: Record<BuiltinRunnerKind, ExampleRunner> = {
+  'ai-code': (body, { participant, observer }) => runAiGeneratedCode(body, participant, observer),
+  'data-analysis': (body, { participant, observer }) => runDataAnalysis(body, participant, observer),
+  'dev-preview': (body, { request, participant, observer }) =>
+    runInteractiveDevPreview(body, request, participant, observer),
+  ci: (body, { participant, observer }) => runCiTesting(body, participant, observer),
+  'untrusted-code': (body, { participant, observer }) =>
+    runUntrustedCode(body.input, body.limits, body.network, body.analysisPolicy, participant, observer)
 };
 
 const JSON_HEADERS = { 'content-type': 'application/json; charset=utf-8' };
+const SSE_HEADERS = {
+  'content-type': 'text/event-stream; charset=utf-8',
+  'cache-control': 'no-cache'
+};
 const LOCAL_PREVIEW_PROXY_PREFIX = '/__sandbox_preview';
+const PREVIEW_REPO_ROOT = '/workspace/preview-repos';
+const PREVIEW_MANIFEST_PATH = '/workspace/.workshop/previews.json';
+const PREVIEW_INSTALL_COMMAND = [
+  'if [ -f package-lock.json ]; then npm ci --no-audit --no-fund;',
+  'elif [ -f package.json ]; then npm install --no-audit --no-fund; fi',
+  '&& if [ -f requirements.txt ]; then pip3 install --no-cache-dir -r requirements.txt; fi'
+].join(' ');
+const CI_PROJECT_DIR = '/workspace/ci';
+const CI_RESULTS_DIR = '/workspace/ci-results';
+const CI_JUNIT_PATH = `${CI_RESULTS_DIR}/junit.xml`;
+const CI_MAX_FILES = 50;
+const CI_MAX_PROJECT_BYTES = 512 * 1024;
+const CI_TEST_COMMANDS: Record<CiTestCommand, string> = {
+  'node --test': 'node --test --test-reporter=tap',
+  'npm test': 'if [ -f package.json ]; then npm install --no-audit --no-fund --loglevel=error; fi && npm test',
+  pytest: `python3 -m pytest -q --junitxml=${CI_JUNIT_PATH}`
+};
+const AI_SCRIPT_DIR = '/workspace/ai';
+const CONTEXT_MANIFEST_PATH = '/workspace/.workshop/contexts.json';
+const CONTEXT_LIMIT = 8;
+const TERMINAL_MANIFEST_PATH = '/workspace/.workshop/terminals.json';
+const TERMINAL_LIMIT = 6;
+const BROADCAST_ID = /^[a-f0-9]{32}$/;
+const REPAIR_STDERR_CHARS = 4000;
+const HISTORY_PAGE_SIZE = 50;
+const HISTORY_MAX_PAGE_SIZE = 200;
+const RECORDINGS_PAGE_SIZE = 50;
+const CONTENT_BLOCK_ROUTE = /^\/api\/(sessions|examples)\/([^/]+)\/blocks\/([^/]+)$/;
+const CODE_GENERATION_FALLBACKS: Record<CodeLanguage, (prompt: string) => string> = {
+  python: (prompt) => `# Fallback generated script
+prompt = ${JSON.stringify(prompt)}
+print('Prompt:', prompt)
+print('Length:', len(prompt))`,
+  javascript: (prompt) => `// Fallback generated script
+const prompt = ${JSON.stringify(prompt)};
+console.log('Prompt:', prompt);
+console.log('Length:', prompt.length);`,
+  typescript: (prompt) => `// Fallback generated script
+const prompt: string = ${JSON.stringify(prompt)};
+console.log('Prompt:', prompt);
+console.log('Length:', prompt.length);`,
+  shell: (prompt) => `# Fallback generated script
+prompt=${shellQuote(prompt)}
+echo "Prompt: $prompt"
+echo "Length: \${#prompt}"`
+};
 const env = workerEnv as unknown as Env;
+let cachedAiProvider: AiProvider | undefined;
 
 function isLikelyPreviewHostname(hostname: string): boolean {
   return /^\d+-/.test(hostname) && hostname.endsWith('.localhost');
@@ -102,32 +378,83 @@ export default {
       );
     }
 
-
-    if (url.pathname === '/ws/terminal') {
-      return await handleTerminalWebSocket(request, url);
+    // Like the facilitator token: without PARTICIPANT_SECRET, only local dev hosts get (dev-signed) cookies.
+    const participantSecret =
+      env.PARTICIPANT_SECRET || (isLocalHostname(url.hostname) ? DEV_PARTICIPANT_SECRET : undefined);
+    if (!participantSecret) {
+      return json({ ok: false, message: 'PARTICIPANT_SECRET is not configured for this deployment.' }, 503);
     }
 
-    if (url.pathname === '/api/terminal/bootstrap') {
-      return await handleTerminalBootstrap();
-    }
+    const participant = await resolveParticipant(request, participantSecret);
+    return withParticipantCookie(await routeRequest(request, url, participant), participant);
+  }
+};
 
-    if (url.pathname.startsWith('/api/sessions/')) {
-      return await handleSessionRequest(url);
-    }
+async function routeRequest(request: Request, url: URL, participant: Participant): Promise<Response> {
+  if (url.pathname === '/ws/terminal') {
+    return await handleTerminalWebSocket(request, url, participant);
+  }
 
-    if (url.pathname.startsWith('/api/examples/')) {
-      return await handleExampleRequest(request, url);
-    }
+  if (url.pathname.startsWith('/api/terminals/')) {
+    return await handleTerminalRequest(request, url, participant);
+  }
 
-    return await serveSpaAssets(request);
+  if (url.pathname.startsWith('/api/broadcasts/')) {
+    return await handleBroadcastRequest(request, url);
   }
-};
 
-async function handleExampleRequest(request: Request, url: URL): Promise<Response> {
+  if (CONTENT_BLOCK_ROUTE.test(url.pathname)) {
+    return await handleContentBlockRequest(request, url, participant);
+  }
+
+  if (url.pathname.startsWith('/api/sessions/')) {
+    return await handleSessionRequest(url, participant);
+  }
+
+  if (url.pathname.startsWith('/api/examples/')) {
+    return await handleExampleRequest(request, url, participant);
+  }
+
+  if (url.pathname === '/api/previews' || url.pathname.startsWith('/api/previews/')) {
+    return await handlePreviewRequest(request, url, participant);
+  }
+
+  if (url.pathname.startsWith('/api/artifacts/')) {
+    return await handleArtifactRequest(request, url, participant);
+  }
+
+  if (url.pathname === '/api/contexts' || url.pathname.startsWith('/api/contexts/')) {
+    return await handleContextRequest(request, url, participant);
+  }
+
+  if (url.pathname === '/api/sandboxes' || url.pathname.startsWith('/api/sandboxes/')) {
+    return await handleSandboxRequest(request, url, participant);
+  }
+
+  if (url.pathname === '/api/recordings' || url.pathname.startsWith('/api/recordings/')) {
+    return await handleRecordingRequest(request, url, participant);
+  }
+
+  if (url.pathname === '/api/history' || url.pathname.startsWith('/api/history/')) {
+    return await handleHistoryRequest(request, url, participant);
+  }
+
+  if (url.pathname === '/api/facilitator' || url.pathname.startsWith('/api/facilitator/')) {
+    return await handleFacilitatorRequest(request, url);
+  }
+
+  return await serveSpaAssets(request);
+}
+
+async function handleExampleRequest(request: Request, url: URL, participant: Participant): Promise<Response> {
   if (url.pathname === '/api/examples/ai-generated-code/generate') {
     return await handleAiCodeGeneration(request);
   }
 
+  if (url.pathname === '/api/examples/data-analysis/upload') {
+    return await handleDatasetUpload(request, participant);
+  }
+
   const id = url.pathname.replace('/api/examples/', '') as ExampleId;
   const example = exampleById[id];
 
@@ -143,7 +470,11 @@ async function handleExampleRequest(request: Request, url: URL): Promise<Respons
 
   try {
     const body = request.method === 'POST' ? ((await request.json()) as ExampleRequestBody) : undefined;
-    const result = await runExample(id, body?.input, body?.prompt, request);
+    if (url.searchParams.get('stream') === '1') {
+      return streamExampleRun(id, body, request, participant);
+    }
+
+    const result = await runExample(id, body, request, participant);
     return json(result);
   } catch (error) {
     return json(
@@ -157,6 +488,47 @@ async function handleExampleRequest(request: Request, url: URL): Promise<Respons
   }
 }
 
+function streamExampleRun(
+  id: ExampleId,
+  body: ExampleRequestBody | undefined,
+  request: Request,
+  participant: Participant
+): Response {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  // Writes queue in order; a closed client connection just drops the remaining events.
+  const send = (event: ExampleStreamEvent) => {
+    writer
+      .write(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`))
+      .catch(() => undefined);
+  };
+
+  const observer: RunObserver = {
+    phase: (label) => send({ type: 'phase', label }),
+    output: (stream, data) => send({ type: 'output', stream, data })
+  };
+
+  void (async () => {
+    try {
+      const result = await runExample(id, body, request, participant, observer);
+      send({ type: 'result', result });
+    } catch (error) {
+      send({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      await writer.close().catch(() => undefined);
+    }
+  })();
+
+  return new Response(readable, { headers: SSE_HEADERS });
+}
+
+function observedExec(observer: RunObserver | undefined, options: ExecOptions = {}): ExecOptions {
+  if (!observer) return options;
+  return { ...options, stream: true, onOutput: observer.output };
+}
+
 async function handleAiCodeGeneration(request: Request): Promise<Response> {
   if (request.method !== 'POST') {
     return json({ ok: false, message: 'Method not allowed' }, 405);
@@ -169,116 +541,165 @@ async function handleAiCodeGeneration(request: Request): Promise<Response> {
     return json({ ok: false, message: 'Prompt is required.' }, 400);
   }
 
-  const code = await generatePythonFromPrompt(prompt);
+  let language: CodeLanguage;
+  let model: AiModelDefinition;
+  try {
+    language = parseCodeLanguage(body.language);
+    model = resolveAiModel(body.model);
+  } catch (error) {
+    return json({ ok: false, message: error instanceof Error ? error.message : String(error) }, 400);
+  }
+
+  const code = await generateCodeFromPrompt(prompt, language, model);
   return json({
     ok: true,
     prompt,
+    language,
+    model: model.id,
+    provider: aiProvider().name,
     code
   });
 }
 
-async function generatePythonFromPrompt(prompt: string): Promise<string> {
-  const model = '@cf/zai-org/glm-4.7-flash' as unknown as keyof AiModels;
-  const system = [
-    'You generate Python scripts for an educational Cloudflare Sandbox workshop.',
-    'Return only Python code, no markdown fences.',
-    'Keep it short (15-40 lines), clear, safe, and runnable in a sandbox.',
-    'Prefer standard library only unless user explicitly asks otherwise.',
-    'Always print observable output for workshop participants.'
-  ].join(' ');
-
-  const aiResponse = await env.AI.run(model, {
-    messages: [
-      { role: 'system', content: system },
-      {
-        role: 'user',
-        content: `Create a Python script for this request:\n${prompt}\n\nReturn only raw Python code.`
-      }
-    ]
-  });
-
-  const raw =
-    extractText(aiResponse) ??
-    `# Fallback generated script
-prompt = ${JSON.stringify(prompt)}
-print('Prompt:', prompt)
-print('Length:', len(prompt))`;
+async function generateCodeFromPrompt(
+  prompt: string,
+  language: CodeLanguage,
+  model: AiModelDefinition
+): Promise<string> {
+  const task: AiTask = {
+    exampleId: 'ai-generated-code',
+    kind: 'generate',
+    language,
+    values: { ...languagePromptValues(language), prompt }
+  };
+  const text = await runModel(model, task);
 
-  return sanitizePython(raw);
+  return sanitizeGeneratedCode(text ?? CODE_GENERATION_FALLBACKS[language](prompt));
 }
 
-async function generateDataAnalysisCode(question: string, csvStructure: string): Promise<string> {
-  const model = '@cf/zai-org/glm-4.7-flash' as unknown as keyof AiModels;
-  const system = [
-    'You write production-quality Python data analysis scripts for Cloudflare Sandbox demos.',
-    'Return only raw Python code with no markdown fences.',
-    'Use pandas and optionally matplotlib/numpy.',
-    'Read data from /workspace/data/input.csv.',
-    'Answer the user question clearly in printed output.',
-    'If a chart helps, save it to /workspace/data/chart.png.'
-  ].join(' ');
+async function generateDataAnalysisCode(
+  question: string,
+  csvStructure: string,
+  dataset: Pick<DatasetInfo, 'path' | 'format'>,
+  model: AiModelDefinition
+): Promise<string> {
+  const task: AiTask = {
+    exampleId: 'data-analysis',
+    kind: 'generate',
+    language: 'python',
+    values: {
+      format: dataset.format.toUpperCase(),
+      path: dataset.path,
+      loader: pandasLoader(dataset.path, dataset.format),
+      structure: csvStructure,
+      question
+    }
+  };
+  const text = await runModel(model, task);
 
-  const aiResponse = await env.AI.run(model, {
-    messages: [
-      { role: 'system', content: system },
-      {
-        role: 'user',
-        content: `Dataset structure JSON:
-${csvStructure}
+  const fallbackCode = buildDataAnalysisFallbackCode(question, dataset);
 
-Analysis question:
-${question}
+  return sanitizeGeneratedCode(text ?? fallbackCode);
+}
 
-Generate complete Python code now.`
-      }
-    ]
+async function repairGeneratedCode(repair: RepairPrompt, code: string, failure: RepairStep): Promise<string> {
+  const repaired = await runModel(repair.model, {
+    exampleId: repair.exampleId,
+    kind: 'repair',
+    language: repair.language,
+    values: {
+      ...repair.values,
+      code,
+      exitCode: failure.exitCode,
+      stderr: failure.stderr.slice(-REPAIR_STDERR_CHARS) || '(empty)'
+    }
   });
 
-  const fallbackCode = buildDataAnalysisFallbackCode(question);
+  if (!repaired) throw new Error(`The ${aiProvider().name} provider returned no repaired code.`);
+  return sanitizeGeneratedCode(repaired);
+}
+
+async function runModel(model: AiModelDefinition, task: AiTask): Promise<string | undefined> {
+  const prompt = renderPromptTemplate(promptTemplates(task.exampleId)[task.kind], task.values);
+  return await aiProvider().complete({ model, prompt, task });
+}
 
-  return sanitizePython(extractText(aiResponse) ?? fallbackCode);
+function aiProvider(): AiProvider {
+  cachedAiProvider ??= createAiProvider(env);
+  return cachedAiProvider;
 }
 
-function extractText(response: unknown): string | undefined {
-  if (!response || typeof response !== 'object') return undefined;
-  const record = response as Record<string, unknown>;
+function promptTemplates(exampleId: ExampleId): NonNullable<ExampleDefinition['prompts']> {
+  const prompts = exampleById[exampleId].prompts;
+  if (!prompts) throw new Error(`No prompt templates are configured for ${exampleId}.`);
+  return prompts;
+}
 
-  if (typeof record.response === 'string') return record.response;
+function languagePromptValues(language: CodeLanguage): Record<string, string> {
+  const option = codeLanguageOption(language);
+  return { language: option.promptName, rules: option.promptRules.join(' ') };
+}
 
-  const result = record.result as Record<string, unknown> | undefined;
-  if (result && typeof result.response === 'string') return result.response;
+// Runs the script and, while it keeps failing, hands the code and its stderr back to the model for a fix.
+async function runWithRepair<T extends RepairStep>(options: {
+  code: string;
+  repairs: number;
+  repair: RepairPrompt;
+  observer?: RunObserver;
+  execute: (code: string) => Promise<T>;
+}): Promise<{ result: T; code: string; attempts: RepairAttempt[] }> {
+  const { repairs, observer } = options;
+  let code = options.code;
+  let result = await options.execute(code);
+  const attempts: RepairAttempt[] = [
+    { attempt: 0, code, stderr: result.stderr, exitCode: result.exitCode, ok: result.ok }
+  ];
+
+  for (let attempt = 1; !result.ok && attempt <= repairs; attempt += 1) {
+    observer?.phase(`repairing (attempt ${attempt} of ${repairs})`);
+    let repaired: string;
+    try {
+      repaired = await withTimeout(repairGeneratedCode(options.repair, code, result), 35000, 'Workers AI code repair');
+    } catch {
+      break;
+    }
+    // Re-running identical code would only reproduce the same failure.
+    if (repaired === code) break;
 
-  const choices = record.choices;
-  if (Array.isArray(choices) && choices.length > 0) {
-    const choice = choices[0] as Record<string, unknown>;
-    const message = choice.message as Record<string, unknown> | undefined;
-    if (message && typeof message.content === 'string') return message.content;
+    code = repaired;
+    observer?.phase(`executing repair ${attempt}`);
+    result = await options.execute(code);
+    attempts.push({ attempt, code, stderr: result.stderr, exitCode: result.exitCode, ok: result.ok });
   }
 
-  return undefined;
+  return { result, code, attempts };
+}
+
+function withRepairNote(summary: string, attempts: RepairAttempt[]): string {
+  const repairs = attempts.length - 1;
+  if (repairs === 0) return summary;
+  const last = attempts[attempts.length - 1];
+  return `${summary} Self-repair made ${repairs} attempt${repairs === 1 ? '' : 's'}; the last one ${last.ok ? 'passed' : 'still failed'}.`;
+}
+
+function parseRepairAttempts(value: unknown): number {
+  const attempts = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10);
+  if (!Number.isFinite(attempts) || attempts < 1) return 0;
+  return Math.min(Math.floor(attempts), maxRepairAttempts);
 }
 
-function sanitizePython(content: string): string {
+function sanitizeGeneratedCode(content: string): string {
   const trimmed = content.trim();
   if (!trimmed.includes('```')) return trimmed;
 
   const withoutFences = trimmed
-    .replace(/^```python\s*/i, '')
-    .replace(/^```\s*/i, '')
+    .replace(/^```[\w-]*\s*/i, '')
     .replace(/```$/i, '')
     .trim();
 
   return withoutFences || trimmed;
 }
 
-function stripBlockingPatterns(code: string): string {
-  let output = code;
-  output = output.replace(/^\s*plt\.show\(\)\s*$/gm, '# plt.show() removed for non-interactive sandbox run');
-  output = output.replace(/^\s*input\(.+\)\s*$/gm, '# input(...) removed for non-interactive sandbox run');
-  output = output.replace(/^\s*time\.sleep\(.+\)\s*$/gm, '# time.sleep(...) removed to avoid long blocking runs');
-  return output;
-}
-
 async function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
   let timeoutId: ReturnType<typeof setTimeout> | undefined;
   const timeoutPromise = new Promise<never>((_, reject) => {
@@ -292,51 +713,10 @@ async function withTimeout<T>(promise: Promise<T>, ms: number, label: string): P
   }
 }
 
-function inferCsvValueType(value: string): string {
-  const normalized = value.trim();
-  if (!normalized) return 'string';
-  if (/^-?\d+$/.test(normalized)) return 'int64';
-  if (/^-?\d+\.\d+$/.test(normalized)) return 'float64';
-  if (/^(true|false)$/i.test(normalized)) return 'bool';
-  return 'string';
-}
-
-function buildCsvStructure(csv: string): string {
-  const lines = csv
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0);
-
-  if (lines.length === 0) {
-    return JSON.stringify({ rows: 0, columns: [], dtypes: {}, sample: [] });
-  }
-
-  const columns = lines[0].split(',').map((column) => column.trim());
-  const records = lines.slice(1).map((line) => line.split(',').map((cell) => cell.trim()));
-
-  const sample = records.slice(0, 3).map((row) =>
-    Object.fromEntries(columns.map((column, idx) => [column, row[idx] ?? '']))
-  );
-
-  const dtypes = Object.fromEntries(
-    columns.map((column, idx) => {
-      const firstPopulated = records.map((row) => row[idx] ?? '').find((value) => value.trim().length > 0) ?? '';
-      return [column, inferCsvValueType(firstPopulated)];
-    })
-  );
-
-  return JSON.stringify({
-    rows: records.length,
-    columns,
-    dtypes,
-    sample
-  });
-}
-
-function buildDataAnalysisFallbackCode(question: string): string {
+function buildDataAnalysisFallbackCode(question: string, dataset: Pick<DatasetInfo, 'path' | 'format'>): string {
   return `import pandas as pd
 
-df = pd.read_csv('/workspace/data/input.csv')
+df = ${pandasLoader(dataset.path, dataset.format)}
 print("Analysis question:", ${JSON.stringify(question)})
 print("Rows:", len(df))
 print("Columns:", list(df.columns))
@@ -362,14 +742,14 @@ if 'region' in df.columns:
 `;
 }
 
-function buildDataAnalysisExecutionFallbackCode(question: string): string {
+function buildDataAnalysisExecutionFallbackCode(question: string, path: string): string {
   return `import csv
 from collections import defaultdict
 
 question = ${JSON.stringify(question)}
 print("Analysis question:", question)
 
-with open('/workspace/data/input.csv', newline='') as f:
+with open(${JSON.stringify(path)}, newline='') as f:
   reader = csv.DictReader(f)
   rows = list(reader)
 
@@ -431,11 +811,15 @@ if 'region' in (reader.fieldnames or []):
 `;
 }
 
-async function generateChartArtifact(sandbox: Sandbox): Promise<void> {
+async function generateChartArtifact(
+  sandbox: Sandbox,
+  dataset: Pick<DatasetInfo, 'path' | 'format'>,
+  observer?: RunObserver
+): Promise<void> {
   const chartScript = `import pandas as pd
 import matplotlib.pyplot as plt
 
-df = pd.read_csv('/workspace/data/input.csv')
+df = ${pandasLoader(dataset.path, dataset.format)}
 numeric = df.select_dtypes(include=['number'])
 
 plt.figure(figsize=(8, 4.5))
@@ -475,7 +859,7 @@ print('Saved chart to /workspace/data/chart.png')
 
   await sandbox.writeFile('/workspace/data/chart.py', chartScript);
   await withTimeout(
-    sandbox.exec('python3 /workspace/data/chart.py', { timeout: 20000 }),
+    sandbox.exec('python3 /workspace/data/chart.py', observedExec(observer, { timeout: 20000 })),
     25000,
     'Chart generation'
   );
@@ -552,25 +936,90 @@ async function handleLocalPreviewProxyRoute(
 
 async function runExample(
   id: ExampleId,
-  input: string | undefined,
-  prompt: string | undefined,
-  request: Request
+  body: ExampleRequestBody | undefined,
+  request: Request,
+  participant: Participant,
+  observer?: RunObserver
+): Promise<ExampleRunResult> {
+  const example = exampleById[id];
+  const input = parseExampleInput(example.fields, body) as ExampleRequestBody;
+  const startedAt = new Date();
+  let result: ExampleRunResult;
+  try {
+    result = await dispatchExample(example, input, { request, participant, observer });
+  } catch (error) {
+    // Thrown runs are still attempts worth keeping; the handler reports the error as before.
+    await recordRun(participant, 'example', id, startedAt, input, {
+      ok: false,
+      exampleId: id,
+      sandboxId: participantSandboxId(participant, id),
+      summary: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+
+  await recordRun(participant, 'example', id, startedAt, input, result);
+  return result;
+}
+
+async function dispatchExample(
+  example: ExampleDefinition,
+  body: ExampleRequestBody,
+  context: ExampleRunContext
 ): Promise<ExampleRunResult> {
-  switch (id) {
-    case 'ai-generated-code':
-      return await runAiGeneratedCode(input);
-    case 'data-analysis':
-      return await runDataAnalysis(input, prompt);
-    case 'interactive-dev':
-      return await runInteractiveDevPreview(request);
-    case 'ci-testing':
-      return await runCiTesting();
-    case 'security-untrusted':
-      return await runUntrustedCode(input);
+  const { runner } = example;
+  if (runner.kind !== 'command') {
+    return await builtinRunners[runner.kind](body, context);
+  }
+
+  const sandboxId = participantSandboxId(context.participant, example.id);
+  const result = await runCommandRunner(sandboxId, runner, example.fields, body, context.observer);
+  return {
+    ...result,
+    exampleId: example.id,
+    sandboxId,
+    summary: result.ok
+      ? (example.messages?.successSummary ?? 'Command finished in sandbox.')
+      : (example.messages?.failureSummary ?? `Command exited with code ${result.exitCode}.`)
+  };
+}
+
+async function runCommandRunner(
+  sandboxId: string,
+  definition: CommandRunnerDefinition,
+  fields: ExampleField[],
+  input: Record<string, unknown>,
+  observer?: RunObserver
+): Promise<{ ok: boolean; output: string; stderr: string; exitCode: number; details?: unknown }> {
+  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+  await sandbox.mkdir(COMMAND_RUNNER_DIR, { recursive: true });
+
+  const files = { ...definition.setupFiles };
+  if (definition.inputPath && typeof input.input === 'string') files[definition.inputPath] = input.input;
+  if (Object.keys(files).length > 0) observer?.phase('writing setup files');
+  for (const [relativePath, content] of Object.entries(files)) {
+    const path = runnerFilePath(relativePath);
+    await sandbox.mkdir(path.slice(0, path.lastIndexOf('/')), { recursive: true });
+    await sandbox.writeFile(path, content);
   }
+
+  const command = renderRunnerCommand(definition, fields, input);
+  observer?.phase(`running ${command}`);
+  const result = await sandbox.exec(
+    `cd ${COMMAND_RUNNER_DIR} && ${command}`,
+    observedExec(observer, { timeout: definition.timeoutMs ?? COMMAND_RUNNER_TIMEOUT_MS })
+  );
+
+  return {
+    ok: result.success,
+    output: result.stdout,
+    stderr: result.stderr,
+    exitCode: result.exitCode,
+    ...parseCommandResult(definition.parser, result.stdout)
+  };
 }
 
-async function handleSessionRequest(url: URL): Promise<Response> {
+async function handleSessionRequest(url: URL, participant: Participant): Promise<Response> {
   const id = url.pathname.replace('/api/sessions/', '') as SessionId;
   const session = sessionById[id];
 
@@ -578,390 +1027,1578 @@ async function handleSessionRequest(url: URL): Promise<Response> {
     return json({ ok: false, message: `Unknown session id: ${id}` }, 404);
   }
 
+  const startedAt = new Date();
+  const query: Record<string, string> = {};
+  url.searchParams.forEach((value, key) => {
+    query[key] = value;
+  });
   try {
-    const result = await runSession(id, url);
+    const result = await runSession(id, url, participant);
+    await recordRun(participant, 'session', id, startedAt, query, result);
     return json(result);
   } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await recordRun(participant, 'session', id, startedAt, query, {
+      ok: false,
+      sessionId: id,
+      sandboxId: participantSandboxId(participant, sessionSandboxScope(session)),
+      summary: message
+    });
     return json(
       {
         ok: false,
         sessionId: id,
-        message: error instanceof Error ? error.message : String(error)
+        message
       },
       500
     );
   }
 }
 
-async function runSession(id: SessionId, url: URL): Promise<SessionRunResult> {
-  switch (id) {
-    case 'fundamentals':
-      return await runSessionFundamentals();
-    case 'executing-code': {
-      const result = await runAiGeneratedCode(`print("hello from python")
-print("sandbox fundamentals are reusable")`);
-      return {
-        ok: result.ok,
-        sessionId: id,
-        sandboxId: result.sandboxId,
-        summary: sessionById[id].resultSummary,
-        output: result.output,
-        stderr: result.stderr,
-        exitCode: result.exitCode
-      };
-    }
-    case 'data-workflows': {
-      const result = await runDataAnalysis(undefined, 'What trends stand out by region?');
-      return {
-        ok: result.ok,
-        sessionId: id,
-        sandboxId: result.sandboxId,
-        summary: sessionById[id].resultSummary,
-        output: result.output,
-        stderr: result.stderr,
-        exitCode: result.exitCode,
-        details: result.details
-      };
-    }
-    case 'preview-workflows': {
-      const fakeRequest = new Request(url.toString());
-      const result = await runInteractiveDevPreview(fakeRequest);
-      return {
-        ok: result.ok,
-        sessionId: id,
-        sandboxId: result.sandboxId,
-        summary: sessionById[id].resultSummary,
-        previewUrl: result.previewUrl,
-        details: result.details,
-        exitCode: result.exitCode
-      };
-    }
-    case 'automation-ci': {
-      const result = await runCiTesting();
-      return {
-        ok: result.ok,
-        sessionId: id,
-        sandboxId: result.sandboxId,
-        summary: sessionById[id].resultSummary,
-        output: result.output,
-        stderr: result.stderr,
-        exitCode: result.exitCode
-      };
-    }
-  }
-}
+async function runSession(id: SessionId, url: URL, participant: Participant): Promise<SessionRunResult> {
+  const session = sessionById[id];
+  const { runner } = session;
 
-async function runSessionFundamentals(): Promise<SessionRunResult> {
-  const sandboxId = 'workshop-session-fundamentals';
-  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
-  const command = `echo "Session 1: Sandbox Fundamentals" && uname -a && echo "cwd: $(pwd)" && ls -1 /workspace | head -20`;
-  const result = await sandbox.exec(command);
+  if (runner.kind === 'command') {
+    const sandboxId = participantSandboxId(participant, sessionSandboxScope(session));
+    const result = await runCommandRunner(sandboxId, runner, [], {});
+    return { ...result, sessionId: id, sandboxId, summary: session.resultSummary };
+  }
 
+  const example = exampleById[runner.exampleId];
+  const result = await dispatchExample(example, parseExampleInput(example.fields, runner.input), {
+    request: new Request(url.toString()),
+    participant
+  });
   return {
-    ok: result.success,
-    sessionId: 'fundamentals',
-    sandboxId,
-    summary: sessionById.fundamentals.resultSummary,
-    output: result.stdout,
+    ok: result.ok,
+    sessionId: id,
+    sandboxId: result.sandboxId,
+    summary: session.resultSummary,
+    output: result.output,
     stderr: result.stderr,
-    exitCode: result.exitCode
+    exitCode: result.exitCode,
+    previewUrl: result.previewUrl,
+    details: result.details
   };
 }
 
-async function handleTerminalBootstrap(): Promise<Response> {
-  const sandboxId = 'workshop-terminal';
-  const terminalSessionId = 'live-terminal';
-  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+// Sessions that run their own command have a sandbox; the rest share their exercise's.
+function sessionSandboxScope(session: SessionDefinition): SandboxScope {
+  return session.runner.kind === 'command' ? `session-${session.id}` : session.runner.exampleId;
+}
 
-  let session;
-  try {
-    session = await sandbox.getSession(terminalSessionId);
-  } catch {
-    session = await sandbox.createSession({
-      id: terminalSessionId,
-      cwd: '/workspace',
-      env: {
-        WORKSHOP: 'thinking-in-sandboxes'
-      }
-    });
-    await session.exec(
-      `echo "Connected to Cloudflare Sandbox PTY session" && echo "Try: pwd, ls, python3 --version"`
-    );
+// Runs one "run" block from a session's or example's Markdown in the sandbox that page already uses.
+async function handleContentBlockRequest(request: Request, url: URL, participant: Participant): Promise<Response> {
+  if (request.method !== 'POST') {
+    return json({ ok: false, message: 'Method not allowed' }, 405);
   }
 
-  const response: TerminalBootstrapResult = {
-    ok: true,
-    sandboxId,
-    sessionId: terminalSessionId,
-    summary: 'Terminal session ready.'
-  };
-
-  return json(response);
-}
+  const [, collection, ownerId, blockId] = CONTENT_BLOCK_ROUTE.exec(url.pathname) ?? [];
+  const session = collection === 'sessions' ? sessionById[ownerId] : undefined;
+  const owner = session ?? (collection === 'examples' ? exampleById[ownerId] : undefined);
+  if (!owner) {
+    return json({ ok: false, message: `Unknown ${collection === 'sessions' ? 'session' : 'example'} id: ${ownerId}` }, 404);
+  }
 
-async function handleTerminalWebSocket(request: Request, url: URL): Promise<Response> {
-  if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
-    return json({ ok: false, message: 'WebSocket upgrade required.' }, 426);
+  const block = owner.body.find((candidate) => candidate.type === 'runnable' && candidate.id === blockId);
+  if (block?.type !== 'runnable') {
+    return json({ ok: false, message: `Unknown runnable block: ${blockId}` }, 404);
   }
 
-  const sandboxId = url.searchParams.get('id');
-  const sessionId = url.searchParams.get('session');
-  const cols = positiveInt(url.searchParams.get('cols')) ?? 120;
-  const rows = positiveInt(url.searchParams.get('rows')) ?? 30;
+  const sandboxId = participantSandboxId(participant, session ? sessionSandboxScope(session) : owner.id);
+  const language = runnableLanguages[block.language];
+  try {
+    const result = await runCommandRunner(
+      sandboxId,
+      { kind: 'command', setupFiles: { [language.file]: block.code }, command: language.command, parser: 'text' },
+      [],
+      {}
+    );
+    const body: ContentBlockRunResult = {
+      ok: result.ok,
+      blockId,
+      sandboxId,
+      output: result.output,
+      stderr: result.stderr,
+      exitCode: result.exitCode
+    };
+    return json(body);
+  } catch (error) {
+    return json(
+      {
+        ok: false,
+        blockId,
+        message: error instanceof Error ? error.message : String(error)
+      },
+      500
+    );
+  }
+}
 
-  if (!sandboxId) {
-    return json({ ok: false, message: 'Missing required query param: id' }, 400);
+// /api/terminals/:scope lists (GET) or opens (POST) terminals in that participant sandbox;
+// /api/terminals/:scope/:name closes one (DELETE). Each terminal is its own shell session.
+// /api/terminals/:scope/:name/broadcast starts (POST) or stops (DELETE) read-only spectating.
+async function handleTerminalRequest(request: Request, url: URL, participant: Participant): Promise<Response> {
+  const [scope, name, action] = url.pathname.replace(/^\/api\/terminals\/?/, '').split('/');
+  if (!participantSandboxScopes.includes(scope)) {
+    return json({ ok: false, message: `Unknown sandbox scope: ${scope}` }, 404);
   }
 
+  const sandboxId = participantSandboxId(participant, scope);
   const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
-  const targetSession = sessionId ?? 'default';
+  const toInfo = (record: TerminalRecord): TerminalInfo => ({ ...record, scope, sandboxId });
 
-  if (sessionId) {
-    try {
-      await sandbox.getSession(sessionId);
-    } catch {
-      await sandbox.createSession({ id: sessionId, cwd: '/workspace' });
+  try {
+    if (!name && request.method === 'GET') {
+      const manifest = await readTerminalManifest(sandbox);
+      return json({ ok: true, sandboxId, terminals: Object.values(manifest).map(toInfo) });
     }
-  }
 
-  return await proxyTerminal(sandbox, targetSession, request, { cols, rows });
-}
+    if (!name && request.method === 'POST') {
+      const body = (await request.json().catch(() => ({}))) as TerminalRequestBody;
+      let terminalName: string;
+      let cwd: string;
+      try {
+        terminalName = parseTerminalName(body.name);
+        cwd = parseTerminalCwd(body.cwd);
+      } catch (error) {
+        return json({ ok: false, message: error instanceof Error ? error.message : String(error) }, 400);
+      }
 
-async function runAiGeneratedCode(input: string | undefined): Promise<ExampleRunResult> {
-  const sandboxId = 'workshop-ai-generated-code';
-  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+      const manifest = await readTerminalManifest(sandbox);
+      if (manifest[terminalName]) {
+        return json({ ok: false, message: `Terminal "${terminalName}" already exists.` }, 409);
+      }
+      if (Object.keys(manifest).length >= TERMINAL_LIMIT) {
+        return json(
+          { ok: false, message: `At most ${TERMINAL_LIMIT} terminals can be open in one sandbox. Close one first.` },
+          409
+        );
+      }
 
-  const context = await sandbox.createCodeContext({
-    language: 'python',
-    envVars: { WORKSHOP: 'thinking-in-sandboxes' }
-  });
+      const created = await createTerminal(sandbox, manifest, terminalName, cwd);
+      return json({ ok: true, sandboxId, terminal: toInfo(created) }, 201);
+    }
 
-  const code =
-    input?.trim() ||
-    `numbers = [4, 8, 15, 16, 23, 42]
-print("count:", len(numbers))
-print("sum:", sum(numbers))`;
+    if (name && action === 'broadcast') {
+      if (request.method !== 'POST' && request.method !== 'DELETE') {
+        return json({ ok: false, message: 'Method not allowed' }, 405);
+      }
+      const updated = await setTerminalBroadcast(
+        sandbox,
+        participant,
+        sandboxId,
+        scope,
+        name,
+        request.method === 'POST'
+      );
+      if (!updated) return json({ ok: false, message: `Unknown terminal: ${name}` }, 404);
+      return json({ ok: true, sandboxId, terminal: toInfo(updated) });
+    }
 
-  const run = await sandbox.runCode(code, { context });
-  const logLines = [...run.logs.stdout, ...run.logs.stderr];
-  const resultLines = run.results.flatMap((result) => {
-    const lines: string[] = [];
-    if (result.text) lines.push(result.text);
-    if (result.markdown) lines.push(result.markdown);
-    if (result.json) lines.push(JSON.stringify(result.json));
-    return lines;
-  });
-  const combinedOutput = [...logLines, ...resultLines].join('\n');
+    if (name && !action && request.method === 'DELETE') {
+      const removed = await closeTerminal(sandbox, participant, sandboxId, name);
+      if (!removed) return json({ ok: false, message: `Unknown terminal: ${name}` }, 404);
+      const manifest = await readTerminalManifest(sandbox);
+      return json({ ok: true, sandboxId, terminals: Object.values(manifest).map(toInfo) });
+    }
 
-  return {
-    ok: !run.error,
-    exampleId: 'ai-generated-code',
-    sandboxId,
-    summary: run.error
-      ? (exampleById['ai-generated-code'].messages?.failureSummary ?? 'Code execution returned an interpreter error.')
-      : (exampleById['ai-generated-code'].messages?.successSummary ?? 'Code executed in isolated context.'),
-    output: combinedOutput,
-    stderr: run.error ? JSON.stringify(run.error, null, 2) : undefined,
-    exitCode: run.error ? 1 : 0,
-    details: run.results
-  };
+    return json({ ok: false, message: 'Method not allowed' }, 405);
+  } catch (error) {
+    return json({ ok: false, message: error instanceof Error ? error.message : String(error) }, 500);
+  }
 }
 
-async function runDataAnalysis(
-  input: string | undefined,
-  prompt: string | undefined
-): Promise<ExampleRunResult> {
-  const sandboxId = 'workshop-data-analysis';
-  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
-  const question = prompt?.trim() || 'Which region has the strongest revenue and user efficiency trends?';
+// The caller has already checked the name is free and the limit isn't reached.
+async function createTerminal(
+  sandbox: Sandbox,
+  manifest: Record<string, TerminalRecord>,
+  name: string,
+  cwd: string
+): Promise<TerminalRecord> {
+  const record: TerminalRecord = {
+    name,
+    sessionId: `terminal-${name}`,
+    cwd,
+    createdAt: new Date().toISOString()
+  };
 
-  const csv =
-    input?.trim() ||
-    `region,revenue,users
-us-east,1200,34
+  // A session can outlive its manifest entry (a workspace reset deletes the file), and would keep its old cwd.
+  await sandbox.deleteSession(record.sessionId).catch(() => undefined);
+  await sandbox.mkdir(cwd, { recursive: true });
+  await sandbox.createSession({
+    id: record.sessionId,
+    cwd,
+    env: {
+      WORKSHOP: 'thinking-in-sandboxes',
+      WORKSHOP_TERMINAL: name
+    }
+  });
+
+  manifest[name] = record;
+  await writeTerminalManifest(sandbox, manifest);
+  return record;
+}
+
+async function closeTerminal(
+  sandbox: Sandbox,
+  participant: Participant,
+  sandboxId: string,
+  name: string
+): Promise<boolean> {
+  const manifest = await readTerminalManifest(sandbox);
+  const record = manifest[name];
+  if (!record) return false;
+
+  await sandbox.deleteSession(record.sessionId).catch(() => undefined);
+  if (record.broadcastId) {
+    await terminalBroadcast(record.broadcastId).close(broadcastOwner(participant, sandboxId, record));
+  }
+  delete manifest[name];
+  await writeTerminalManifest(sandbox, manifest);
+  return true;
+}
+
+// Starting is idempotent, so a second click hands back the same spectate link. Stopping disconnects
+// every viewer; the link is dead from then on and a new broadcast gets a new ID.
+async function setTerminalBroadcast(
+  sandbox: Sandbox,
+  participant: Participant,
+  sandboxId: string,
+  scope: string,
+  name: string,
+  live: boolean
+): Promise<TerminalRecord | null> {
+  const manifest = await readTerminalManifest(sandbox);
+  const record = manifest[name];
+  if (!record) return null;
+  if (live === Boolean(record.broadcastId)) return record;
+
+  const owner = broadcastOwner(participant, sandboxId, record);
+  if (live) {
+    record.broadcastId = crypto.randomUUID().replace(/-/g, '');
+    await terminalBroadcast(record.broadcastId).open({
+      owner,
+      terminal: name,
+      scope,
+      startedAt: new Date().toISOString()
+    });
+  } else if (record.broadcastId) {
+    // A manifest ID that belongs to someone else's broadcast is only dropped here, never closed.
+    await terminalBroadcast(record.broadcastId).close(owner);
+    delete record.broadcastId;
+  }
+
+  await writeTerminalManifest(sandbox, manifest);
+  return record;
+}
+
+// Reset and destroy end every shell in the sandbox, so spectators shouldn't be left watching one.
+async function closeTerminalBroadcasts(sandbox: Sandbox, participant: Participant, sandboxId: string): Promise<void> {
+  const manifest = await readTerminalManifest(sandbox);
+  for (const record of Object.values(manifest)) {
+    if (!record.broadcastId) continue;
+    const owner = broadcastOwner(participant, sandboxId, record);
+    await terminalBroadcast(record.broadcastId).close(owner).catch(() => undefined);
+  }
+}
+
+// The broadcast ID in the manifest is only a pointer; the broadcast itself checks this owner, which
+// comes from the signed participant cookie rather than anything the sandbox can edit.
+function broadcastOwner(participant: Participant, sandboxId: string, record: TerminalRecord): BroadcastOwner {
+  return { participantId: participant.id, sandboxId, sessionId: record.sessionId };
+}
+
+// GET /api/broadcasts/:id is public on purpose: spectators are other participants, and the
+// unguessable ID is what the presenter shares.
+async function handleBroadcastRequest(request: Request, url: URL): Promise<Response> {
+  if (request.method !== 'GET') return json({ ok: false, message: 'Method not allowed' }, 405);
+
+  const id = url.pathname.replace(/^\/api\/broadcasts\/?/, '');
+  if (!BROADCAST_ID.test(id)) return json({ ok: false, message: `Unknown broadcast: ${id}` }, 404);
+
+  try {
+    const broadcast: TerminalBroadcastStatus = await terminalBroadcast(id).status();
+    return json({ ok: true, broadcast });
+  } catch (error) {
+    return json({ ok: false, message: error instanceof Error ? error.message : String(error) }, 500);
+  }
+}
+
+function terminalBroadcast(id: string): DurableObjectStub<TerminalBroadcast> {
+  return env.TerminalBroadcast.getByName(id);
+}
+
+function parseTerminalName(value: string | undefined): string {
+  const name = value?.trim().toLowerCase() ?? '';
+  if (!/^[a-z0-9][a-z0-9-]{0,31}$/.test(name)) {
+    throw new Error('Terminal name must be 1-32 lowercase letters, digits, or dashes.');
+  }
+  return name;
+}
+
+function parseTerminalCwd(value: string | undefined): string {
+  const cwd = value?.trim() || '/workspace';
+  if (!cwd.startsWith('/') || cwd.split('/').includes('..')) {
+    throw new Error('Terminal working directory must be an absolute path without "..".');
+  }
+  return cwd;
+}
+
+async function readTerminalManifest(sandbox: Sandbox): Promise<Record<string, TerminalRecord>> {
+  try {
+    const file = await sandbox.readFile(TERMINAL_MANIFEST_PATH);
+    return JSON.parse(file.content) as Record<string, TerminalRecord>;
+  } catch {
+    return {};
+  }
+}
+
+async function writeTerminalManifest(sandbox: Sandbox, manifest: Record<string, TerminalRecord>): Promise<void> {
+  await sandbox.mkdir(TERMINAL_MANIFEST_PATH.slice(0, TERMINAL_MANIFEST_PATH.lastIndexOf('/')), { recursive: true });
+  await sandbox.writeFile(TERMINAL_MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+}
+
+async function handleTerminalWebSocket(request: Request, url: URL, participant: Participant): Promise<Response> {
+  if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+    return json({ ok: false, message: 'WebSocket upgrade required.' }, 426);
+  }
+
+  // Spectators attach to the broadcast, never to the sandbox, so their input has nowhere to go.
+  const spectate = url.searchParams.get('spectate');
+  if (spectate !== null) {
+    if (!BROADCAST_ID.test(spectate)) return json({ ok: false, message: `Unknown broadcast: ${spectate}` }, 404);
+    return await terminalBroadcast(spectate).fetch(request);
+  }
+
+  const sandboxId = url.searchParams.get('id');
+  const sessionId = url.searchParams.get('session');
+  const cols = positiveInt(url.searchParams.get('cols')) ?? 120;
+  const rows = positiveInt(url.searchParams.get('rows')) ?? 30;
+
+  if (!sandboxId) {
+    return json({ ok: false, message: 'Missing required query param: id' }, 400);
+  }
+
+  if (!isParticipantSandboxId(participant, sandboxId)) {
+    return json({ ok: false, message: 'Sandbox does not belong to this participant.' }, 403);
+  }
+
+  if (!sessionId) {
+    return json({ ok: false, message: 'Missing required query param: session' }, 400);
+  }
+
+  // Only terminals opened through /api/terminals can be attached, so a closed tab stays closed.
+  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+  const manifest = await readTerminalManifest(sandbox);
+  const terminal = Object.values(manifest).find((record) => record.sessionId === sessionId);
+  if (!terminal) {
+    return json({ ok: false, message: `Unknown terminal session: ${sessionId}` }, 404);
+  }
+
+  const upstream = await proxyTerminal(sandbox, sessionId, request, { cols, rows });
+  const recorder = new CastRecorder(terminalRecordings(participant), {
+    id: crypto.randomUUID(),
+    scope: participantSandboxScope(participant, sandboxId) ?? sandboxId,
+    sandboxId,
+    sessionId,
+    terminal: terminal.name,
+    startedAt: new Date().toISOString(),
+    width: cols,
+    height: rows
+  });
+  const broadcast = terminal.broadcastId
+    ? new BroadcastPublisher(terminalBroadcast(terminal.broadcastId), broadcastOwner(participant, sandboxId, terminal))
+    : undefined;
+  return recordTerminalSocket(upstream, recorder, broadcast);
+}
+
+// Sits between the browser and the container's PTY socket, recording both directions and, while the
+// terminal is broadcast, fanning its output out to spectators.
+// Binary frames are terminal bytes; text frames are JSON control messages (resize, ready, exit).
+function recordTerminalSocket(upstream: Response, recorder: CastRecorder, broadcast?: BroadcastPublisher): Response {
+  const container = upstream.webSocket;
+  if (!container) return upstream;
+
+  const [client, server] = Object.values(new WebSocketPair());
+  container.accept();
+  server.accept();
+
+  server.addEventListener('message', (event) => {
+    if (typeof event.data === 'string') {
+      const control = parseTerminalControl(event.data);
+      if (control?.type === 'resize' && typeof control.cols === 'number' && typeof control.rows === 'number') {
+        recorder.resize(control.cols, control.rows);
+      }
+    } else {
+      recorder.input(event.data);
+    }
+    container.send(event.data);
+  });
+  container.addEventListener('message', (event) => {
+    if (typeof event.data !== 'string') {
+      recorder.output(event.data);
+      broadcast?.output(event.data);
+    }
+    server.send(event.data);
+  });
+
+  let closed = false;
+  const closeBoth = (code: number, reason: string) => {
+    if (closed) return;
+    closed = true;
+    recorder.close();
+    // 1005 and 1006 describe a missing close frame and cannot be sent on.
+    const forwardCode = code === 1005 || code === 1006 ? 1000 : code;
+    for (const socket of [server, container]) {
+      try {
+        socket.close(forwardCode, reason);
+      } catch {
+        // Already closed from the other side.
+      }
+    }
+  };
+  server.addEventListener('close', (event) => closeBoth(event.code, event.reason));
+  container.addEventListener('close', (event) => closeBoth(event.code, event.reason));
+  server.addEventListener('error', () => closeBoth(1011, 'Terminal client error'));
+  container.addEventListener('error', () => closeBoth(1011, 'Terminal sandbox error'));
+
+  return new Response(null, { status: 101, webSocket: client });
+}
+
+function parseTerminalControl(data: string): { type?: string; cols?: unknown; rows?: unknown } | undefined {
+  try {
+    const control = JSON.parse(data) as unknown;
+    return control && typeof control === 'object' ? (control as { type?: string }) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// GET /api/recordings?scope=&limit= lists this participant's terminal recordings; GET /api/recordings/:id
+// downloads one as an asciicast v2 .cast file.
+async function handleRecordingRequest(request: Request, url: URL, participant: Participant): Promise<Response> {
+  if (request.method !== 'GET') return json({ ok: false, message: 'Method not allowed' }, 405);
+
+  const id = url.pathname.replace(/^\/api\/recordings\/?/, '');
+  try {
+    if (!id) {
+      const limit = Math.min(positiveInt(url.searchParams.get('limit')) ?? RECORDINGS_PAGE_SIZE, RECORDINGS_PAGE_SIZE);
+      const scope = url.searchParams.get('scope') ?? undefined;
+      const recordings: TerminalRecordingSummary[] = await terminalRecordings(participant).list({ scope, limit });
+      return json({ ok: true, recordings });
+    }
+
+    return await castResponse(participant, id);
+  } catch (error) {
+    return json({ ok: false, message: error instanceof Error ? error.message : String(error) }, 500);
+  }
+}
+
+async function castResponse(participant: Participant, id: string): Promise<Response> {
+  const found = await terminalRecordings(participant).cast(id);
+  if (!found) return json({ ok: false, message: `Unknown recording: ${id}` }, 404);
+
+  const fileName = `${found.recording.terminal}-${found.recording.startedAt.replace(/[:.]/g, '-')}.cast`;
+  return new Response(found.cast, {
+    headers: {
+      'content-type': 'application/x-asciicast; charset=utf-8',
+      'content-disposition': `attachment; filename="${fileName}"`
+    }
+  });
+}
+
+function terminalRecordings(participant: Participant): DurableObjectStub<TerminalRecordings> {
+  return env.TerminalRecordings.getByName(participant.id);
+}
+
+async function runAiGeneratedCode(
+  body: ExampleRequestBody | undefined,
+  participant: Participant,
+  observer?: RunObserver
+): Promise<ExampleRunResult> {
+  const sandboxId = participantSandboxId(participant, 'ai-generated-code');
+  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+  const language = parseCodeLanguage(body?.language);
+  const code = body?.input?.trim() || codeLanguageOption(language).defaultInput;
+  const repairs = parseRepairAttempts(body?.repairAttempts);
+  const repair: RepairPrompt = {
+    exampleId: 'ai-generated-code',
+    language,
+    model: resolveAiModel(body?.model),
+    values: {
+      ...languagePromptValues(language),
+      goal: body?.prompt?.trim() || 'Run this script successfully and print its output.'
+    }
+  };
+
+  if (language === 'shell') {
+    return await runAiGeneratedShell(sandbox, sandboxId, { code, repairs, repair }, observer);
+  }
+
+  const analysisPolicy = resolveAnalysisPolicy(
+    body?.analysisPolicy,
+    exampleById['ai-generated-code'].analysisPolicy ?? 'warn'
+  );
+  let analysis: StaticAnalysisReport | undefined;
+
+  observer?.phase(`creating ${language} code context`);
+  const context = await sandbox.createCodeContext({
+    language,
+    envVars: { WORKSHOP: 'thinking-in-sandboxes' }
+  });
+
+  try {
+    // The egress guard hooks the Python runtime, so other interpreters run without it.
+    let network: NetworkPolicy | undefined;
+    if (language === 'python') {
+      network = resolveNetworkPolicy(body?.network);
+      observer?.phase(`applying network policy (${network.mode})`);
+      await prepareNetworkGuard(sandbox);
+      const guard = await sandbox.runCode(networkGuardPreamble(network), { context });
+      if (guard.error) {
+        throw new Error(`Could not install the network guard: ${guard.error.message}`);
+      }
+    }
+
+    // Repairs reuse the context, so anything an earlier attempt defined is still in scope.
+    const { result, attempts } = await runWithRepair({
+      code,
+      repairs,
+      repair,
+      observer,
+      execute: async (attemptCode) => {
+        // Only Python has an analyzer; the other interpreters run the code as written.
+        let runnableCode = attemptCode;
+        if (language === 'python') {
+          const checked = await analyzePythonCode(sandbox, attemptCode, analysisPolicy, observer);
+          analysis = checked.report;
+          if (checked.report.blocked) {
+            const stderr = analysisBlockedMessage(checked.report);
+            return { ok: false, stderr, exitCode: STATIC_ANALYSIS_BLOCKED_EXIT_CODE, run: undefined };
+          }
+          runnableCode = checked.code;
+        }
+
+        observer?.phase('executing');
+        const run = await sandbox.runCode(runnableCode, {
+          context,
+          onStdout: observer ? (message) => observer.output('stdout', `${message.text}\n`) : undefined,
+          onStderr: observer ? (message) => observer.output('stderr', `${message.text}\n`) : undefined
+        });
+        return {
+          ok: !run.error,
+          stderr: run.error
+            ? [`${run.error.name}: ${run.error.message}`, ...run.error.traceback].join('\n')
+            : run.logs.stderr.join('\n'),
+          exitCode: run.error ? 1 : 0,
+          run
+        };
+      }
+    });
+    const { run } = result;
+    const egress = network ? await readNetworkReport(sandbox, network, 'python') : undefined;
+
+    if (!run) {
+      return {
+        ok: false,
+        exampleId: 'ai-generated-code',
+        sandboxId,
+        summary: withRepairNote(`Static analysis (${analysisPolicy}) blocked the code before it ran.`, attempts),
+        output: '',
+        stderr: result.stderr,
+        exitCode: result.exitCode,
+        details: {
+          language,
+          analysis,
+          model: repairs > 0 ? repair.model.id : undefined,
+          aiProvider: repairs > 0 ? aiProvider().name : undefined,
+          attempts: repairs > 0 ? attempts : undefined
+        }
+      };
+    }
+
+    return {
+      ok: !run.error,
+      exampleId: 'ai-generated-code',
+      sandboxId,
+      summary: withRepairNote(
+        run.error
+          ? (exampleById['ai-generated-code'].messages?.failureSummary ??
+            'Code execution returned an interpreter error.')
+          : (exampleById['ai-generated-code'].messages?.successSummary ?? 'Code executed in isolated context.'),
+        attempts
+      ),
+      output: executionOutput(run),
+      stderr: run.error ? JSON.stringify(run.error, null, 2) : undefined,
+      exitCode: run.error ? 1 : 0,
+      details: {
+        language,
+        outputs: normalizeRunOutputs(run.results),
+        network: egress,
+        analysis,
+        model: repairs > 0 ? repair.model.id : undefined,
+        aiProvider: repairs > 0 ? aiProvider().name : undefined,
+        attempts: repairs > 0 ? attempts : undefined
+      }
+    };
+  } finally {
+    // One-off runs don't need their interpreter afterwards; notebooks keep theirs via /api/contexts.
+    // Deleted however the run ends, so a failed guard install or repair doesn't leak the context.
+    await sandbox.deleteCodeContext(context.id).catch(() => undefined);
+  }
+}
+
+async function handleContextRequest(request: Request, url: URL, participant: Participant): Promise<Response> {
+  const sandboxId = participantSandboxId(participant, 'ai-generated-code');
+  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+  const [name, action] = url.pathname.replace(/^\/api\/contexts\/?/, '').split('/');
+
+  try {
+    if (!name && request.method === 'GET') {
+      return json({ ok: true, sandboxId, contexts: await listNotebookContexts(sandbox) });
+    }
+
+    if (!name && request.method === 'POST') {
+      const body = (await request.json().catch(() => ({}))) as ContextRequestBody;
+      const created = await createNotebookContext(sandbox, body);
+      return json({ ok: true, sandboxId, context: created }, 201);
+    }
+
+    if (name && !action && request.method === 'DELETE') {
+      const removed = await deleteNotebookContext(sandbox, name);
+      if (!removed) return json({ ok: false, message: `Unknown context: ${name}` }, 404);
+      return json({ ok: true, sandboxId, contexts: await listNotebookContexts(sandbox) });
+    }
+
+    if (name && action === 'run' && request.method === 'POST') {
+      const body = (await request.json().catch(() => ({}))) as ContextRequestBody;
+      const code = body.code?.trim();
+      if (!code) return json({ ok: false, message: 'Cell code is required.' }, 400);
+
+      const manifest = await readContextManifest(sandbox);
+      const record = manifest[name];
+      if (!record) return json({ ok: false, message: `Unknown context: ${name}` }, 404);
+
+      const context = (await sandbox.listCodeContexts()).find((entry) => entry.id === record.contextId);
+      if (!context) {
+        return json({ ok: false, message: `Context "${name}" expired with its sandbox. Delete and recreate it.` }, 410);
+      }
+
+      return json({ ok: true, sandboxId, cell: await runNotebookCell(sandbox, record, context, code) });
+    }
+
+    return json({ ok: false, message: 'Method not allowed' }, 405);
+  } catch (error) {
+    return json({ ok: false, message: error instanceof Error ? error.message : String(error) }, 500);
+  }
+}
+
+async function createNotebookContext(sandbox: Sandbox, body: ContextRequestBody): Promise<NotebookContextInfo> {
+  const name = parseContextName(body.name);
+  const language = body.language ?? 'python';
+  if (!['python', 'javascript', 'typescript'].includes(language)) {
+    throw new Error(`Notebook contexts support python, javascript, or typescript, not ${String(language)}.`);
+  }
+
+  const manifest = await readContextManifest(sandbox);
+  if (manifest[name]) throw new Error(`Context "${name}" already exists.`);
+  if (Object.keys(manifest).length >= CONTEXT_LIMIT) {
+    throw new Error(`At most ${CONTEXT_LIMIT} notebook contexts can exist at once. Delete one first.`);
+  }
+
+  const context = await sandbox.createCodeContext({
+    language,
+    envVars: { WORKSHOP: 'thinking-in-sandboxes' }
+  });
+
+  // The guard lives for the whole kernel, so a notebook keeps the policy it was created with.
+  let network: NetworkPolicy | undefined;
+  if (language === 'python') {
+    network = resolveNetworkPolicy(body.network);
+    await prepareNetworkGuard(sandbox);
+    const guard = await sandbox.runCode(networkGuardPreamble(network), { context });
+    if (guard.error) {
+      await sandbox.deleteCodeContext(context.id).catch(() => undefined);
+      throw new Error(`Could not install the network guard: ${guard.error.message}`);
+    }
+  }
+
+  const record: ContextRecord = {
+    name,
+    contextId: context.id,
+    language,
+    createdAt: new Date().toISOString(),
+    cellCount: 0,
+    network
+  };
+  manifest[name] = record;
+  await writeContextManifest(sandbox, manifest);
+
+  return { ...record, status: 'active' };
+}
+
+async function runNotebookCell(
+  sandbox: Sandbox,
+  record: ContextRecord,
+  context: CodeContext,
+  code: string
+): Promise<NotebookCellResult> {
+  if (record.network) {
+    await sandbox.exec(`: > ${NETWORK_LOG_PATH}`);
+  }
+
+  const run = await sandbox.runCode(code, { context });
+  const network = record.network ? await readNetworkReport(sandbox, record.network, 'python') : undefined;
+
+  const manifest = await readContextManifest(sandbox);
+  const cell = (manifest[record.name]?.cellCount ?? record.cellCount) + 1;
+  if (manifest[record.name]) {
+    manifest[record.name].cellCount = cell;
+    await writeContextManifest(sandbox, manifest);
+  }
+
+  return {
+    ok: !run.error,
+    context: record.name,
+    cell,
+    code,
+    output: executionOutput(run),
+    stderr: run.error ? [`${run.error.name}: ${run.error.message}`, ...run.error.traceback].join('\n') : undefined,
+    outputs: normalizeRunOutputs(run.results),
+    network
+  };
+}
+
+async function deleteNotebookContext(sandbox: Sandbox, name: string): Promise<boolean> {
+  const manifest = await readContextManifest(sandbox);
+  const record = manifest[name];
+  if (!record) return false;
+
+  await sandbox.deleteCodeContext(record.contextId).catch(() => undefined);
+  delete manifest[name];
+  await writeContextManifest(sandbox, manifest);
+  return true;
+}
+
+async function listNotebookContexts(sandbox: Sandbox): Promise<NotebookContextInfo[]> {
+  const manifest = await readContextManifest(sandbox);
+  const live = await sandbox.listCodeContexts().catch(() => []);
+
+  return Object.values(manifest).map((record) => {
+    const context = live.find((entry) => entry.id === record.contextId);
+    return {
+      ...record,
+      status: context ? 'active' : 'expired',
+      lastUsed: context ? new Date(context.lastUsed).toISOString() : undefined
+    };
+  });
+}
+
+function parseContextName(value: string | undefined): string {
+  const name = value?.trim().toLowerCase() ?? '';
+  if (!/^[a-z0-9][a-z0-9-]{0,31}$/.test(name)) {
+    throw new Error('Context name must be 1-32 lowercase letters, digits, or dashes.');
+  }
+  return name;
+}
+
+async function readContextManifest(sandbox: Sandbox): Promise<Record<string, ContextRecord>> {
+  try {
+    const file = await sandbox.readFile(CONTEXT_MANIFEST_PATH);
+    return JSON.parse(file.content) as Record<string, ContextRecord>;
+  } catch {
+    return {};
+  }
+}
+
+async function writeContextManifest(sandbox: Sandbox, manifest: Record<string, ContextRecord>): Promise<void> {
+  await sandbox.mkdir(CONTEXT_MANIFEST_PATH.slice(0, CONTEXT_MANIFEST_PATH.lastIndexOf('/')), { recursive: true });
+  await sandbox.writeFile(CONTEXT_MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+}
+
+async function runAiGeneratedShell(
+  sandbox: Sandbox,
+  sandboxId: string,
+  script: { code: string; repairs: number; repair: RepairPrompt },
+  observer?: RunObserver
+): Promise<ExampleRunResult> {
+  await sandbox.mkdir(AI_SCRIPT_DIR, { recursive: true });
+
+  const { result, attempts } = await runWithRepair({
+    ...script,
+    observer,
+    execute: async (attemptCode) => {
+      observer?.phase('writing shell script');
+      await sandbox.writeFile(`${AI_SCRIPT_DIR}/script.sh`, `${attemptCode}\n`);
+      observer?.phase('executing');
+      const exec = await sandbox.exec(
+        `bash ${AI_SCRIPT_DIR}/script.sh`,
+        observedExec(observer, { cwd: AI_SCRIPT_DIR, env: { WORKSHOP: 'thinking-in-sandboxes' }, timeout: 30000 })
+      );
+      return { ...exec, ok: exec.success };
+    }
+  });
+
+  return {
+    ok: result.success,
+    exampleId: 'ai-generated-code',
+    sandboxId,
+    summary: withRepairNote(
+      result.success
+        ? (exampleById['ai-generated-code'].messages?.successSummary ?? 'Code executed in isolated context.')
+        : `Shell script exited with code ${result.exitCode}.`,
+      attempts
+    ),
+    output: result.stdout,
+    stderr: result.stderr || undefined,
+    exitCode: result.exitCode,
+    details: {
+      language: 'shell',
+      model: script.repairs > 0 ? script.repair.model.id : undefined,
+      aiProvider: script.repairs > 0 ? aiProvider().name : undefined,
+      attempts: script.repairs > 0 ? attempts : undefined
+    }
+  };
+}
+
+// Display values travel separately as typed outputs (see normalizeRunOutputs), so this is just the logs.
+function executionOutput(run: ExecutionResult): string {
+  return [...run.logs.stdout, ...run.logs.stderr].join('\n');
+}
+
+function parseCodeLanguage(value: unknown): CodeLanguage {
+  if (value === undefined) return 'python';
+  if (typeof value === 'string' && codeLanguages.includes(value as CodeLanguage)) return value as CodeLanguage;
+  throw new Error(`Unsupported language: ${String(value)}. Use one of: ${codeLanguages.join(', ')}.`);
+}
+
+function codeLanguageOption(language: CodeLanguage): CodeLanguageOption {
+  const option = exampleById['ai-generated-code'].languages?.find((candidate) => candidate.id === language);
+  if (!option) throw new Error(`No ${language} option is configured for ai-generated-code.`);
+  return option;
+}
+
+async function runDataAnalysis(
+  body: ExampleRequestBody | undefined,
+  participant: Participant,
+  observer?: RunObserver
+): Promise<ExampleRunResult> {
+  const sandboxId = participantSandboxId(participant, 'data-analysis');
+  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+  const question = body?.prompt?.trim() || 'Which region has the strongest revenue and user efficiency trends?';
+  const model = resolveAiModel(body?.model);
+
+  let dataset: Pick<DatasetInfo, 'path' | 'format'>;
+  let csvStructure: CsvProfile;
+  if (body?.dataset) {
+    const name = parseDatasetName(body.dataset);
+    dataset = { path: `${DATA_DIR}/${name}`, format: datasetFormatFor(name) as DatasetFormat };
+    if (!(await sandbox.exists(dataset.path)).exists) {
+      throw new Error(`Dataset ${name} was not found in ${DATA_DIR}. Upload it again.`);
+    }
+
+    observer?.phase(`profiling ${name}`);
+    csvStructure = await profileDataset(sandbox, dataset);
+  } else {
+    const csv =
+      body?.input?.trim() ||
+      `region,revenue,users
+us-east,1200,34
 us-west,980,27
 eu-central,1430,42
 apac,870,24`;
 
-  await sandbox.mkdir('/workspace/data', { recursive: true });
-  await sandbox.writeFile('/workspace/data/input.csv', `${csv}\n`);
-
-  const csvStructure = buildCsvStructure(csv);
+    observer?.phase('writing dataset');
+    await sandbox.mkdir(DATA_DIR, { recursive: true });
+    await sandbox.writeFile(PASTED_DATASET_PATH, `${csv}\n`);
+    dataset = { path: PASTED_DATASET_PATH, format: 'csv' };
+    csvStructure = profileCsv(csv);
+  }
 
   let generatedCode = '';
   let usedAiFallback = false;
+  observer?.phase('generating code');
   try {
     generatedCode = await withTimeout(
-      generateDataAnalysisCode(question, csvStructure),
+      generateDataAnalysisCode(question, JSON.stringify(csvStructure), dataset, model),
       35000,
       'Workers AI analysis code generation'
     );
   } catch {
     usedAiFallback = true;
-    generatedCode = buildDataAnalysisFallbackCode(question);
+    generatedCode = buildDataAnalysisFallbackCode(question, dataset);
+  }
+  const before = parseSnapshot((await sandbox.exec(snapshotCommand(DATA_DIR))).stdout);
+
+  const repairs = parseRepairAttempts(body?.repairAttempts);
+  const analysisPolicy = resolveAnalysisPolicy(
+    body?.analysisPolicy,
+    exampleById['data-analysis'].analysisPolicy ?? 'rewrite'
+  );
+  let analysis: StaticAnalysisReport | undefined;
+  let runnableCode = generatedCode;
+  const execution = await runWithRepair<RepairStep & { exec?: ExecResult; blocked?: boolean }>({
+    code: generatedCode,
+    repairs,
+    repair: {
+      exampleId: 'data-analysis',
+      language: 'python',
+      model,
+      values: { language: 'Python', goal: question, loader: pandasLoader(dataset.path, dataset.format) }
+    },
+    observer,
+    execute: async (attemptCode) => {
+      const checked = await analyzePythonCode(sandbox, attemptCode, analysisPolicy, observer);
+      analysis = checked.report;
+      runnableCode = checked.code;
+      if (checked.report.blocked) {
+        const stderr = analysisBlockedMessage(checked.report);
+        return { ok: false, stderr, exitCode: STATIC_ANALYSIS_BLOCKED_EXIT_CODE, blocked: true };
+      }
+
+      observer?.phase('executing');
+      await sandbox.writeFile('/workspace/data/analyze.py', runnableCode);
+      try {
+        const exec = await withTimeout(
+          sandbox.exec('python3 /workspace/data/analyze.py', observedExec(observer, { timeout: 45000 })),
+          50000,
+          'Analysis script execution'
+        );
+        return { ok: exec.success, stderr: exec.stderr, exitCode: exec.exitCode, exec };
+      } catch (error) {
+        // No exec result means the script never finished; 124 is what timeout(1) reports.
+        return { ok: false, stderr: error instanceof Error ? error.message : String(error), exitCode: 124 };
+      }
+    }
+  });
+
+  // A blocked script is a verdict, not a crash, so the trusted fallback scripts don't run either.
+  if (execution.result.blocked) {
+    return {
+      ok: false,
+      exampleId: 'data-analysis',
+      sandboxId,
+      summary: withRepairNote(`Static analysis (${analysisPolicy}) blocked the analysis script.`, execution.attempts),
+      output: '',
+      stderr: execution.result.stderr,
+      exitCode: execution.result.exitCode,
+      details: {
+        question,
+        model: model.id,
+        aiProvider: aiProvider().name,
+        dataset,
+        generatedCode: runnableCode,
+        usedAiFallback,
+        csvStructure,
+        analysis,
+        attempts: repairs > 0 ? execution.attempts : undefined
+      }
+    };
+  }
+
+  let result = execution.result.exec;
+  let usedExecutionFallback = false;
+  if (!result) {
+    usedExecutionFallback = true;
+    observer?.phase('executing fallback script');
+    // The stdlib fallback only reads CSV; other formats retry the pandas summary.
+    const emergencyCode =
+      dataset.format === 'csv'
+        ? buildDataAnalysisExecutionFallbackCode(question, dataset.path)
+        : buildDataAnalysisFallbackCode(question, dataset);
+    await sandbox.writeFile('/workspace/data/analyze-fallback.py', emergencyCode);
+    result = await sandbox.exec(
+      'python3 /workspace/data/analyze-fallback.py',
+      observedExec(observer, { timeout: 15000 })
+    );
+  }
+
+  let chartGenerationMessage = 'Chart generation skipped.';
+  observer?.phase('charting');
+  try {
+    await generateChartArtifact(sandbox, dataset, observer);
+    chartGenerationMessage = 'Chart visualization saved to /workspace/data/chart.png';
+  } catch (error) {
+    chartGenerationMessage = `Chart generation failed: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  observer?.phase('collecting artifacts');
+  const after = parseSnapshot((await sandbox.exec(snapshotCommand(DATA_DIR))).stdout);
+  const artifacts = diffSnapshots(before, after, {
+    scope: 'data-analysis',
+    dir: DATA_DIR,
+    // Our own scripts are plumbing, not output of the analysis.
+    ignore: ['analyze.py', 'analyze-fallback.py', 'chart.py', DATASET_PROFILE_SCRIPT_PATH.split('/').pop() ?? '']
+  });
+  await writeArtifactManifest(sandbox, artifacts);
+
+  return {
+    ok: result.success,
+    exampleId: 'data-analysis',
+    sandboxId,
+    summary: withRepairNote(
+      result.success
+        ? usedAiFallback
+          ? usedExecutionFallback
+            ? 'Analysis completed with AI and execution fallbacks (timeout recovery).'
+            : 'Pandas analysis completed in sandbox using fallback script (AI timeout).'
+          : usedExecutionFallback
+            ? 'Analysis completed using execution fallback script (timeout recovery).'
+            : 'AI-generated pandas analysis completed in sandbox.'
+        : (exampleById['data-analysis'].messages?.failureSummary ??
+          'AI-generated analysis failed. Review stderr output.'),
+      execution.attempts
+    ),
+    output: result.stdout,
+    stderr: result.stderr,
+    exitCode: result.exitCode,
+    details: {
+      question,
+      model: model.id,
+      aiProvider: aiProvider().name,
+      dataset,
+      generatedCode: runnableCode,
+      usedAiFallback,
+      usedExecutionFallback,
+      csvStructure,
+      chartGenerationMessage,
+      artifacts,
+      analysis,
+      attempts: repairs > 0 ? execution.attempts : undefined
+    }
+  };
+}
+
+async function handleArtifactRequest(request: Request, url: URL, participant: Participant): Promise<Response> {
+  if (request.method !== 'GET') {
+    return json({ ok: false, message: 'Method not allowed' }, 405);
+  }
+
+  const [scope, ...segments] = url.pathname.replace(/^\/api\/artifacts\/?/, '').split('/');
+  if (!participantSandboxScopes.includes(scope as SandboxScope)) {
+    return json({ ok: false, message: `Unknown sandbox scope: ${scope}` }, 404);
+  }
+
+  const sandboxId = participantSandboxId(participant, scope as SandboxScope);
+  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+
+  try {
+    if (segments.length === 0 || (segments.length === 1 && !segments[0])) {
+      return json({ ok: true, sandboxId, artifacts: await readArtifactManifest(sandbox) });
+    }
+
+    const path = parseArtifactPath(segments);
+    if (!path) return json({ ok: false, message: 'Invalid artifact path.' }, 400);
+
+    const fullPath = `${WORKSPACE_ROOT}/${path}`;
+    if (!(await sandbox.exists(fullPath)).exists) {
+      return json({ ok: false, message: `Artifact not found: ${path}` }, 404);
+    }
+
+    const contentType = contentTypeFor(path);
+    const inline = url.searchParams.get('download') !== '1' && contentType.startsWith('image/');
+    const fileName = path.split('/').pop() ?? 'artifact';
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const source = await sandbox.readFileStream(fullPath);
+
+    void (async () => {
+      const writer = writable.getWriter();
+      const encoder = new TextEncoder();
+      try {
+        for await (const chunk of streamFile(source)) {
+          await writer.write(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+        }
+        await writer.close();
+      } catch (error) {
+        await writer.abort(error);
+      }
+    })();
+
+    return new Response(readable, {
+      headers: {
+        'content-type': contentType,
+        'content-disposition': `${inline ? 'inline' : 'attachment'}; filename="${fileName.replace(/"/g, '')}"`,
+        // Sandbox output is untrusted: never let it run script on the workshop origin.
+        'content-security-policy': "sandbox; default-src 'none'; img-src 'self' data:; style-src 'unsafe-inline'",
+        'x-content-type-options': 'nosniff',
+        'cache-control': 'no-store'
+      }
+    });
+  } catch (error) {
+    return json({ ok: false, message: error instanceof Error ? error.message : String(error) }, 500);
+  }
+}
+
+async function readArtifactManifest(sandbox: Sandbox): Promise<ArtifactInfo[]> {
+  try {
+    const file = await sandbox.readFile(ARTIFACT_MANIFEST_PATH);
+    return JSON.parse(file.content) as ArtifactInfo[];
+  } catch {
+    return [];
+  }
+}
+
+async function writeArtifactManifest(sandbox: Sandbox, artifacts: ArtifactInfo[]): Promise<void> {
+  await sandbox.mkdir(ARTIFACT_MANIFEST_PATH.slice(0, ARTIFACT_MANIFEST_PATH.lastIndexOf('/')), { recursive: true });
+  await sandbox.writeFile(ARTIFACT_MANIFEST_PATH, JSON.stringify(artifacts, null, 2));
+}
+
+async function handleDatasetUpload(request: Request, participant: Participant): Promise<Response> {
+  if (request.method !== 'POST') {
+    return json({ ok: false, message: 'Method not allowed' }, 405);
+  }
+
+  const sandboxId = participantSandboxId(participant, 'data-analysis');
+  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+
+  let file: File;
+  let name: string;
+  try {
+    const field = (await request.formData()).get('file');
+    if (!field || typeof field === 'string') {
+      return json({ ok: false, message: 'Send the dataset as multipart form field "file".' }, 400);
+    }
+    file = field;
+    name = parseDatasetName(file.name);
+  } catch (error) {
+    return json({ ok: false, message: error instanceof Error ? error.message : String(error) }, 400);
+  }
+
+  if (file.size > DATASET_MAX_BYTES) {
+    return json({ ok: false, message: `Datasets are limited to ${DATASET_MAX_BYTES / 1024 / 1024} MB.` }, 413);
+  }
+
+  const dataset: DatasetInfo = {
+    name,
+    path: `${DATA_DIR}/${name}`,
+    format: datasetFormatFor(name) as DatasetFormat,
+    bytes: file.size
+  };
+
+  try {
+    await sandbox.mkdir(DATA_DIR, { recursive: true });
+    await sandbox.writeFile(dataset.path, bytesToBase64(new Uint8Array(await file.arrayBuffer())), {
+      encoding: 'base64'
+    });
+    return json({ ok: true, sandboxId, dataset }, 201);
+  } catch (error) {
+    return json({ ok: false, message: error instanceof Error ? error.message : String(error) }, 500);
+  }
+}
+
+async function profileDataset(sandbox: Sandbox, dataset: Pick<DatasetInfo, 'path' | 'format'>): Promise<CsvProfile> {
+  if (dataset.format === 'csv') {
+    return profileCsv((await sandbox.readFile(dataset.path)).content);
+  }
+
+  await sandbox.writeFile(DATASET_PROFILE_SCRIPT_PATH, DATASET_PROFILE_SCRIPT);
+  const result = await sandbox.exec(
+    `python3 ${DATASET_PROFILE_SCRIPT_PATH} ${shellQuote(dataset.path)} ${dataset.format}`,
+    { timeout: 60000 }
+  );
+  if (!result.success) {
+    throw new Error(`Could not read ${dataset.path} as ${dataset.format}: ${result.stderr.trim().split('\n').pop()}`);
+  }
+  return JSON.parse(result.stdout) as CsvProfile;
+}
+
+async function runInteractiveDevPreview(
+  body: ExampleRequestBody | undefined,
+  request: Request,
+  participant: Participant,
+  observer?: RunObserver
+): Promise<ExampleRunResult> {
+  const sandboxId = participantSandboxId(participant, 'interactive-dev');
+  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+
+  if (body?.repoUrl?.trim() || body?.bundle) {
+    return await runRepositoryPreview(sandbox, sandboxId, body, request, observer);
+  }
+
+  const name = parsePreviewName(body?.previewName, 'static');
+  const port = parsePreviewPort(body?.port, 8080);
+  const command = `python3 -m http.server ${port} --directory /workspace/preview`;
+
+  observer?.phase('writing preview files');
+  await sandbox.mkdir('/workspace/preview', { recursive: true });
+  await sandbox.writeFile(
+    '/workspace/preview/index.html',
+    `<!doctype html>
+<html><head><meta charset="utf-8" /><title>Sandbox Preview</title></head>
+<body style="font-family: ui-monospace, monospace; padding: 2rem;">
+<h1>Interactive Preview Running</h1>
+<p>This page is served from a Cloudflare Sandbox process.</p>
+</body></html>`
+  );
+
+  observer?.phase('starting preview server');
+  const process = await startNamedPreview(sandbox, { name, port, command });
+  await process.waitForPort(port);
+
+  observer?.phase('exposing port');
+  const directPreviewUrl = forcePreviewIndexUrl(await exposePreviewPort(sandbox, name, port, request));
+  const localFallbackPreviewUrl = buildLocalPreviewFallbackUrl(directPreviewUrl, request.url);
+
+  return {
+    ok: true,
+    exampleId: 'interactive-dev',
+    sandboxId,
+    summary:
+      exampleById['interactive-dev'].messages?.successSummary ??
+      'Preview server started in sandbox and exposed through URL.',
+    previewUrl: directPreviewUrl,
+    details: {
+      mode: 'static',
+      previewName: name,
+      port,
+      directPreviewUrl,
+      localFallbackPreviewUrl
+    },
+    exitCode: 0
+  };
+}
+
+async function runRepositoryPreview(
+  sandbox: Sandbox,
+  sandboxId: string,
+  body: ExampleRequestBody,
+  request: Request,
+  observer?: RunObserver
+): Promise<ExampleRunResult> {
+  const repoUrl = body.repoUrl?.trim();
+  const startCommand = body.startCommand?.trim();
+  const name = parsePreviewName(body.previewName, 'app');
+  const port = parsePreviewPort(body.port, 5173);
+  const repoDir = `${PREVIEW_REPO_ROOT}/${name}`;
+  const bundlePath = `${PREVIEW_REPO_ROOT}/${name}.bundle`;
+
+  if (!startCommand) throw new Error('A start command is required to run a repository preview.');
+  if (!body.bundle && repoUrl && !/^https?:\/\//i.test(repoUrl)) {
+    throw new Error('Repository URL must start with http:// or https://.');
+  }
+
+  observer?.phase('cloning repository');
+  await stopNamedPreview(sandbox, name);
+  await sandbox.exec(`rm -rf ${repoDir} ${bundlePath} && mkdir -p ${PREVIEW_REPO_ROOT}`);
+
+  let source: string;
+  if (body.bundle) {
+    source = 'uploaded git bundle';
+    await sandbox.writeFile(bundlePath, body.bundle, { encoding: 'base64' });
+    const branchFlag = body.branch?.trim() ? ` --branch ${shellQuote(body.branch.trim())}` : '';
+    const cloned = await sandbox.exec(
+      `git clone${branchFlag} ${bundlePath} ${repoDir}`,
+      observedExec(observer, { timeout: 60000 })
+    );
+    if (!cloned.success) {
+      throw new Error(`Could not clone git bundle: ${cloned.stderr.trim() || `exit ${cloned.exitCode}`}`);
+    }
+  } else {
+    source = repoUrl!;
+    await sandbox.gitCheckout(source, {
+      branch: body.branch?.trim() || undefined,
+      targetDir: repoDir,
+      depth: 1
+    });
+  }
+
+  const revision = await sandbox.exec('git rev-parse --short HEAD', { cwd: repoDir });
+
+  observer?.phase('installing dependencies');
+  const install = await sandbox.exec(
+    PREVIEW_INSTALL_COMMAND,
+    observedExec(observer, { cwd: repoDir, timeout: 180000 })
+  );
+  const installLog = [install.stdout, install.stderr].filter(Boolean).join('\n');
+
+  const baseDetails = {
+    mode: 'repository',
+    previewName: name,
+    source,
+    branch: body.branch?.trim() || undefined,
+    revision: revision.success ? revision.stdout.trim() : undefined,
+    startCommand,
+    port,
+    installLog
+  };
+
+  if (!install.success) {
+    return {
+      ok: false,
+      exampleId: 'interactive-dev',
+      sandboxId,
+      summary: 'Dependency install failed in sandbox. Review the install log.',
+      output: install.stdout,
+      stderr: install.stderr,
+      exitCode: install.exitCode,
+      details: baseDetails
+    };
+  }
+
+  observer?.phase('starting dev server');
+  const process = await startNamedPreview(sandbox, {
+    name,
+    port,
+    command: startCommand,
+    cwd: repoDir,
+    env: { PORT: String(port), HOST: '0.0.0.0' },
+    onOutput: observer?.output
+  });
+
+  try {
+    await process.waitForPort(port, { timeout: 120000 });
+  } catch (error) {
+    const logs = await process.getLogs().catch(() => ({ stdout: '', stderr: '' }));
+    return {
+      ok: false,
+      exampleId: 'interactive-dev',
+      sandboxId,
+      summary: `Dev server did not start listening on port ${port}: ${error instanceof Error ? error.message : String(error)}`,
+      output: logs.stdout,
+      stderr: logs.stderr,
+      exitCode: process.exitCode ?? 1,
+      details: { ...baseDetails, startLog: [logs.stdout, logs.stderr].filter(Boolean).join('\n') }
+    };
+  }
+
+  const startLogs = await process.getLogs().catch(() => ({ stdout: '', stderr: '' }));
+
+  observer?.phase('exposing port');
+  const directPreviewUrl = await exposePreviewPort(sandbox, name, port, request);
+  const localFallbackPreviewUrl = buildLocalPreviewFallbackUrl(directPreviewUrl, request.url);
+
+  return {
+    ok: true,
+    exampleId: 'interactive-dev',
+    sandboxId,
+    summary: `Cloned ${source}, installed dependencies, and exposed the dev server on port ${port}.`,
+    previewUrl: directPreviewUrl,
+    output: startLogs.stdout,
+    stderr: startLogs.stderr,
+    exitCode: 0,
+    details: {
+      ...baseDetails,
+      startLog: [startLogs.stdout, startLogs.stderr].filter(Boolean).join('\n'),
+      directPreviewUrl,
+      localFallbackPreviewUrl
+    }
+  };
+}
+
+function parsePreviewName(value: string | undefined, fallback: string): string {
+  const name = value?.trim().toLowerCase() || fallback;
+  if (!/^[a-z0-9][a-z0-9-]{0,23}$/.test(name)) {
+    throw new Error('Preview name must be 1-24 lowercase letters, digits, or dashes.');
   }
-  const runnableCode = stripBlockingPatterns(generatedCode);
-  await sandbox.writeFile('/workspace/data/analyze.py', runnableCode);
+  return name;
+}
 
-  let result;
-  let usedExecutionFallback = false;
+function parsePreviewPort(value: number | undefined, fallback: PreviewPort): PreviewPort {
+  const port = value ?? fallback;
+  if (!previewPorts.includes(port as PreviewPort)) {
+    throw new Error(`Preview port must be one of the ports exposed by the container: ${previewPorts.join(', ')}.`);
+  }
+  return port as PreviewPort;
+}
+
+async function readPreviewManifest(sandbox: Sandbox): Promise<Record<string, PreviewRecord>> {
   try {
-    result = await withTimeout(
-      sandbox.exec('python3 /workspace/data/analyze.py', { timeout: 45000 }),
-      50000,
-      'Analysis script execution'
-    );
+    const file = await sandbox.readFile(PREVIEW_MANIFEST_PATH);
+    return JSON.parse(file.content) as Record<string, PreviewRecord>;
   } catch {
-    usedExecutionFallback = true;
-    const emergencyCode = buildDataAnalysisExecutionFallbackCode(question);
-    await sandbox.writeFile('/workspace/data/analyze-fallback.py', emergencyCode);
-    result = await sandbox.exec('python3 /workspace/data/analyze-fallback.py', { timeout: 15000 });
+    return {};
   }
+}
 
-  let chartGenerationMessage = 'Chart generation skipped.';
-  try {
-    await generateChartArtifact(sandbox);
-    chartGenerationMessage = 'Chart visualization saved to /workspace/data/chart.png';
-  } catch (error) {
-    chartGenerationMessage = `Chart generation failed: ${error instanceof Error ? error.message : String(error)}`;
+async function writePreviewManifest(sandbox: Sandbox, manifest: Record<string, PreviewRecord>): Promise<void> {
+  await sandbox.mkdir(PREVIEW_MANIFEST_PATH.slice(0, PREVIEW_MANIFEST_PATH.lastIndexOf('/')), { recursive: true });
+  await sandbox.writeFile(PREVIEW_MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+}
+
+async function startNamedPreview(
+  sandbox: Sandbox,
+  options: {
+    name: string;
+    port: PreviewPort;
+    command: string;
+    cwd?: string;
+    env?: Record<string, string>;
+    onOutput?: RunObserver['output'];
+  }
+): Promise<Process> {
+  const manifest = await readPreviewManifest(sandbox);
+  const conflict = Object.values(manifest).find(
+    (record) => record.port === options.port && record.name !== options.name
+  );
+  if (conflict) {
+    throw new Error(`Port ${options.port} is already used by preview "${conflict.name}". Unexpose it or pick another port.`);
   }
 
-  let chartDataUri: string | undefined;
-  let chartBytes: number | undefined;
+  const processId = `preview-${options.name}`;
+  let existing: Process | null = null;
   try {
-    const chartFile = await sandbox.readFile('/workspace/data/chart.png');
-    chartBytes =
-      chartFile.encoding === 'base64'
-        ? Math.floor((chartFile.content.length * 3) / 4)
-        : chartFile.content.length;
-    const chartBase64 =
-      chartFile.encoding === 'base64' ? chartFile.content : btoa(chartFile.content);
-    chartDataUri = `data:image/png;base64,${chartBase64}`;
+    existing = await sandbox.getProcess(processId);
   } catch {
-    // Chart is optional for this flow.
+    existing = null;
   }
 
-  return {
-    ok: result.success,
-    exampleId: 'data-analysis',
-    sandboxId,
-    summary: result.success
-      ? usedAiFallback
-        ? usedExecutionFallback
-          ? 'Analysis completed with AI and execution fallbacks (timeout recovery).'
-          : 'Pandas analysis completed in sandbox using fallback script (AI timeout).'
-        : usedExecutionFallback
-          ? 'Analysis completed using execution fallback script (timeout recovery).'
-          : 'AI-generated pandas analysis completed in sandbox.'
-      : (exampleById['data-analysis'].messages?.failureSummary ??
-        'AI-generated analysis failed. Review stderr output.'),
-    output: result.stdout,
-    stderr: result.stderr,
-    exitCode: result.exitCode,
-    details: {
-      question,
-      generatedCode: runnableCode,
-      usedAiFallback,
-      usedExecutionFallback,
-      csvStructure,
-      chartGenerationMessage,
-      chartBytes,
-      chartDataUri
-    }
+  // Re-running an unchanged preview keeps its server; anything else is replaced.
+  const reusable =
+    existing?.status === 'running' &&
+    existing.command === options.command &&
+    manifest[options.name]?.port === options.port;
+  if (reusable && existing) return existing;
+
+  await stopNamedPreview(sandbox, options.name);
+  const process = await sandbox.startProcess(options.command, {
+    processId,
+    cwd: options.cwd,
+    env: options.env,
+    onOutput: options.onOutput
+  });
+
+  const updated = await readPreviewManifest(sandbox);
+  updated[options.name] = {
+    name: options.name,
+    port: options.port,
+    processId,
+    command: options.command,
+    startedAt: new Date().toISOString()
   };
-}
+  await writePreviewManifest(sandbox, updated);
 
-async function runInteractiveDevPreview(request: Request): Promise<ExampleRunResult> {
-  const sandboxId = 'workshop-interactive-dev';
-  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+  return process;
+}
 
-  await sandbox.mkdir('/workspace/preview', { recursive: true });
-  await sandbox.writeFile(
-    '/workspace/preview/index.html',
-    `<!doctype html>
-<html><head><meta charset="utf-8" /><title>Sandbox Preview</title></head>
-<body style="font-family: ui-monospace, monospace; padding: 2rem;">
-<h1>Interactive Preview Running</h1>
-<p>This page is served from a Cloudflare Sandbox process.</p>
-</body></html>`
-  );
+async function stopNamedPreview(sandbox: Sandbox, name: string): Promise<boolean> {
+  const manifest = await readPreviewManifest(sandbox);
+  const record = manifest[name];
 
   try {
-    await sandbox.getProcess('preview-server');
+    await sandbox.killProcess(record?.processId ?? `preview-${name}`);
   } catch {
-    const process = await sandbox.startProcess('python3 -m http.server 8080 --directory /workspace/preview', {
-      processId: 'preview-server'
-    });
-    await process.waitForPort(8080);
+    // Process already exited.
+  }
+
+  if (!record) return false;
+
+  if (await sandbox.isPortExposed(record.port)) {
+    await sandbox.unexposePort(record.port);
   }
+  delete manifest[name];
+  await writePreviewManifest(sandbox, manifest);
+  return true;
+}
 
+function previewHostnameFor(request: Request): string {
   const requestUrl = new URL(request.url);
   const isLocalHost = isLocalHostname(requestUrl.hostname);
   const currentPort = requestUrl.port;
-  const exposedHostname = isLocalHost
+  return isLocalHost
     ? currentPort
       ? `${requestUrl.hostname}:${currentPort}`
       : requestUrl.hostname
     : requestUrl.host;
+}
 
-  const exposed = await sandbox.exposePort(8080, {
-    name: 'workshop-preview',
-    hostname: exposedHostname,
-    token: 'previewv1'
+async function exposePreviewPort(sandbox: Sandbox, name: string, port: number, request: Request): Promise<string> {
+  // Without a `token`, the SDK generates a fresh random one per exposure, so a previously shared URL stops working.
+  if (await sandbox.isPortExposed(port)) {
+    await sandbox.unexposePort(port);
+  }
+
+  const exposed = await sandbox.exposePort(port, {
+    name,
+    hostname: previewHostnameFor(request)
   });
   const rawPreviewUrl =
     'exposedAt' in exposed && typeof exposed.exposedAt === 'string' ? exposed.exposedAt : exposed.url;
-  const directPreviewUrl = forcePreviewIndexUrl(normalizeLocalPreviewUrl(rawPreviewUrl, request.url));
-  const localFallbackPreviewUrl = buildLocalPreviewFallbackUrl(directPreviewUrl, request.url);
-
-  return {
-    ok: true,
-    exampleId: 'interactive-dev',
-    sandboxId,
-    summary:
-      exampleById['interactive-dev'].messages?.successSummary ??
-      'Preview server started in sandbox and exposed through URL.',
-    previewUrl: directPreviewUrl,
-    details: {
-      directPreviewUrl,
-      localFallbackPreviewUrl
-    },
-    exitCode: 0
-  };
+  return normalizeLocalPreviewUrl(rawPreviewUrl, request.url);
 }
 
-async function runCiTesting(): Promise<ExampleRunResult> {
-  const sandboxId = 'workshop-ci-testing';
+async function handlePreviewRequest(request: Request, url: URL, participant: Participant): Promise<Response> {
+  const sandboxId = participantSandboxId(participant, 'interactive-dev');
   const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+  const name = url.pathname.replace(/^\/api\/previews\/?/, '');
 
-  await sandbox.mkdir('/workspace/ci', { recursive: true });
-  await sandbox.writeFile(
-    '/workspace/ci/math.js',
-    `export function add(a, b) {
-  return a + b;
+  try {
+    if (!name && request.method === 'GET') {
+      return json({ ok: true, sandboxId, previews: await listPreviews(sandbox, request) });
+    }
+
+    if (name && request.method === 'DELETE') {
+      const removed = await stopNamedPreview(sandbox, name);
+      if (!removed) return json({ ok: false, message: `Unknown preview: ${name}` }, 404);
+      return json({ ok: true, sandboxId, previews: await listPreviews(sandbox, request) });
+    }
+
+    return json({ ok: false, message: 'Method not allowed' }, 405);
+  } catch (error) {
+    return json({ ok: false, message: error instanceof Error ? error.message : String(error) }, 500);
+  }
 }
 
-export function multiply(a, b) {
-  return a * b;
-}`
-  );
+async function listPreviews(sandbox: Sandbox, request: Request): Promise<PreviewInfo[]> {
+  const manifest = await readPreviewManifest(sandbox);
+  const exposedPorts = await sandbox.getExposedPorts(previewHostnameFor(request)).catch(() => []);
+  const processes = await sandbox.listProcesses().catch(() => []);
+
+  return Object.values(manifest).map((record) => {
+    const exposed = exposedPorts.find((entry) => entry.port === record.port);
+    const process = processes.find((entry) => entry.id === record.processId);
+    return {
+      ...record,
+      status: process?.status ?? 'stopped',
+      url: exposed ? normalizeLocalPreviewUrl(exposed.url, request.url) : undefined
+    };
+  });
+}
 
-  await sandbox.writeFile(
-    '/workspace/ci/math.test.js',
-    `import test from 'node:test';
-import assert from 'node:assert/strict';
-import { add, multiply } from './math.js';
-
-test('add works', () => {
-  assert.equal(add(2, 3), 5);
-});
-
-test('multiply works', () => {
-  assert.equal(multiply(3, 7), 21);
-});`
+async function runCiTesting(
+  body: ExampleRequestBody | undefined,
+  participant: Participant,
+  observer?: RunObserver
+): Promise<ExampleRunResult> {
+  const sandboxId = participantSandboxId(participant, 'ci-testing');
+  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+  const testCommand: CiTestCommand =
+    body?.testCommand && body.testCommand in CI_TEST_COMMANDS ? body.testCommand : 'node --test';
+
+  observer?.phase('writing project');
+  await sandbox.exec(`rm -rf ${CI_PROJECT_DIR} ${CI_RESULTS_DIR} && mkdir -p ${CI_PROJECT_DIR} ${CI_RESULTS_DIR}`);
+
+  let files: string[];
+  if (body?.archive) {
+    files = await extractCiArchive(sandbox, body.archive);
+  } else {
+    const fileMap = parseCiFileMap(body?.input?.trim() || exampleById['ci-testing'].defaultInput);
+    for (const [path, content] of Object.entries(fileMap)) {
+      const slashIndex = path.lastIndexOf('/');
+      if (slashIndex > 0) {
+        await sandbox.mkdir(`${CI_PROJECT_DIR}/${path.slice(0, slashIndex)}`, { recursive: true });
+      }
+      await sandbox.writeFile(`${CI_PROJECT_DIR}/${path}`, content);
+    }
+    files = Object.keys(fileMap);
+  }
+
+  observer?.phase('executing');
+  const result = await sandbox.exec(
+    CI_TEST_COMMANDS[testCommand],
+    observedExec(observer, { cwd: CI_PROJECT_DIR, timeout: 60000 })
   );
 
-  const result = await sandbox.exec('node --test /workspace/ci/math.test.js');
+  observer?.phase('parsing results');
+  let junitXml: string | undefined;
+  try {
+    junitXml = (await sandbox.readFile(CI_JUNIT_PATH)).content;
+  } catch {
+    // Only pytest (or a project that opts in) writes a JUnit report.
+  }
+
+  const testCases: CiTestCase[] = junitXml ? parseJunitResults(junitXml) : parseTapResults(result.stdout);
 
   return {
     ok: result.success,
@@ -972,12 +2609,80 @@ test('multiply works', () => {
       : (exampleById['ci-testing'].messages?.failureSummary ?? 'Test run failed in sandbox.'),
     output: result.stdout,
     stderr: result.stderr,
-    exitCode: result.exitCode
+    exitCode: result.exitCode,
+    details: {
+      testCommand,
+      files,
+      reportFormat: junitXml ? 'junit' : testCases.length > 0 ? 'tap' : 'none',
+      testCases,
+      passed: testCases.filter((testCase) => testCase.status === 'pass').length,
+      failed: testCases.filter((testCase) => testCase.status === 'fail').length,
+      skipped: testCases.filter((testCase) => testCase.status === 'skip').length
+    }
   };
 }
 
-async function runUntrustedCode(input: string | undefined): Promise<ExampleRunResult> {
-  const sandboxId = 'workshop-security-untrusted';
+function parseCiFileMap(input: string): Record<string, string> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch {
+    throw new Error('Project input must be a JSON object mapping file paths to file contents.');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Project input must be a JSON object mapping file paths to file contents.');
+  }
+
+  const entries = Object.entries(parsed as Record<string, unknown>);
+  if (entries.length === 0) throw new Error('Project input must contain at least one file.');
+  if (entries.length > CI_MAX_FILES) throw new Error(`Projects are limited to ${CI_MAX_FILES} files.`);
+
+  let totalBytes = 0;
+  for (const [path, content] of entries) {
+    if (typeof content !== 'string') throw new Error(`File contents for ${path} must be a string.`);
+    if (!path || path.startsWith('/') || path.split('/').some((segment) => segment === '..' || segment === '')) {
+      throw new Error(`Invalid project file path: ${path}`);
+    }
+    totalBytes += content.length;
+  }
+
+  if (totalBytes > CI_MAX_PROJECT_BYTES) {
+    throw new Error(`Projects are limited to ${CI_MAX_PROJECT_BYTES / 1024} KB of source.`);
+  }
+
+  return parsed as Record<string, string>;
+}
+
+async function extractCiArchive(sandbox: Sandbox, archive: string): Promise<string[]> {
+  if (Math.floor((archive.length * 3) / 4) > CI_MAX_PROJECT_BYTES * 4) {
+    throw new Error(`Project archives are limited to ${(CI_MAX_PROJECT_BYTES * 4) / 1024} KB.`);
+  }
+
+  const archivePath = `${CI_RESULTS_DIR}/project.tar`;
+  await sandbox.writeFile(archivePath, archive, { encoding: 'base64' });
+
+  // GNU tar detects gzip compression and strips absolute or parent-relative member names.
+  const extracted = await sandbox.exec(
+    `tar -xf ${archivePath} -C ${CI_PROJECT_DIR} && find . -type f -not -path './node_modules/*' | sed 's#^./##' | sort`,
+    { cwd: CI_PROJECT_DIR }
+  );
+  if (!extracted.success) {
+    throw new Error(`Could not extract project archive: ${extracted.stderr.trim() || `exit ${extracted.exitCode}`}`);
+  }
+
+  return extracted.stdout.split('\n').filter(Boolean);
+}
+
+async function runUntrustedCode(
+  input: string | undefined,
+  requestedLimits: Partial<ResourceLimits> | undefined,
+  requestedNetwork: Partial<NetworkPolicy> | undefined,
+  requestedAnalysis: StaticAnalysisPolicy | undefined,
+  participant: Participant,
+  observer?: RunObserver
+): Promise<ExampleRunResult> {
+  const sandboxId = participantSandboxId(participant, 'security-untrusted');
   const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
 
   const code =
@@ -987,23 +2692,403 @@ print("sandbox cwd:", os.getcwd())
 print("attempting sensitive operation simulation...")
 print("entries in /:", len(os.listdir("/")))`;
 
-  await sandbox.mkdir('/workspace/security', { recursive: true });
-  await sandbox.writeFile('/workspace/security/untrusted.py', `${code}\n`);
-  const result = await sandbox.exec('python3 /workspace/security/untrusted.py', { timeout: 2500 });
+  const limits = resolveResourceLimits(requestedLimits);
+  const network = resolveNetworkPolicy(requestedNetwork);
+  const analysisPolicy = resolveAnalysisPolicy(
+    requestedAnalysis,
+    exampleById['security-untrusted'].analysisPolicy ?? 'warn'
+  );
+
+  // Static analysis runs before containment so the lesson can compare what each layer catches.
+  const checked = await analyzePythonCode(sandbox, code, analysisPolicy, observer);
+  if (checked.report.blocked) {
+    return {
+      ok: false,
+      exampleId: 'security-untrusted',
+      sandboxId,
+      summary: `Static analysis (${analysisPolicy}) blocked the code before it reached the sandbox runtime.`,
+      output: '',
+      stderr: analysisBlockedMessage(checked.report),
+      exitCode: STATIC_ANALYSIS_BLOCKED_EXIT_CODE,
+      details: {
+        limits,
+        analysis: checked.report
+      }
+    };
+  }
+
+  observer?.phase('applying resource limits');
+  await sandbox.exec(
+    `mkdir -p ${SECURITY_SCRATCH_DIR} && chmod 777 ${SECURITY_SCRATCH_DIR} && rm -f ${LIMITED_RUNNER_REPORT_PATH}`
+  );
+  await sandbox.writeFile(`${SECURITY_DIR}/untrusted.py`, `${checked.code}\n`);
+  await sandbox.writeFile(LIMITED_RUNNER_PATH, LIMITED_RUNNER_SCRIPT);
+
+  observer?.phase(`applying network policy (${network.mode})`);
+  await prepareNetworkGuard(sandbox);
+  const enforcement = await applyNetworkFirewall(sandbox, network);
+  await sandbox.writeFile(
+    LIMITED_RUNNER_CONFIG_PATH,
+    JSON.stringify({
+      limits,
+      script: `${SECURITY_DIR}/untrusted.py`,
+      cwd: SECURITY_SCRATCH_DIR,
+      report: LIMITED_RUNNER_REPORT_PATH,
+      env: networkGuardEnv(network, enforcement),
+      networkLog: NETWORK_LOG_PATH
+    })
+  );
+
+  observer?.phase('executing');
+  const result = await sandbox.exec(
+    `python3 ${LIMITED_RUNNER_PATH} ${LIMITED_RUNNER_CONFIG_PATH}`,
+    observedExec(observer, { timeout: (limits.wallSeconds + 5) * 1000 })
+  );
+
+  let reportContent: string | undefined;
+  try {
+    reportContent = (await sandbox.readFile(LIMITED_RUNNER_REPORT_PATH)).content;
+  } catch {
+    // The runner itself failed before writing a report; stderr explains why.
+  }
+  const containment = parseResourceReport(reportContent);
+  const egress = await readNetworkReport(sandbox, network, enforcement);
 
   return {
     ok: result.success,
     exampleId: 'security-untrusted',
     sandboxId,
-    summary:
-      exampleById['security-untrusted'].messages?.successSummary ??
-      'Untrusted code executed inside sandbox boundary with timeout controls.',
+    summary: containment?.limitHit
+      ? `Containment stopped the run: ${containment.limitHit} limit hit.`
+      : egress.blocked > 0
+        ? `Network policy (${network.mode}) blocked ${egress.blocked} connection attempt${egress.blocked === 1 ? '' : 's'}.`
+        : (exampleById['security-untrusted'].messages?.successSummary ??
+          'Untrusted code executed inside sandbox boundary with resource limits.'),
     output: result.stdout,
     stderr: result.stderr,
-    exitCode: result.exitCode
+    exitCode: result.exitCode,
+    details: {
+      limits,
+      containment,
+      network: egress,
+      analysis: checked.report
+    }
+  };
+}
+
+async function analyzePythonCode(
+  sandbox: Sandbox,
+  code: string,
+  policy: StaticAnalysisPolicy,
+  observer?: RunObserver
+): Promise<{ report: StaticAnalysisReport; code: string }> {
+  observer?.phase(`static analysis (${policy})`);
+  await sandbox.mkdir(STATIC_ANALYSIS_DIR, { recursive: true });
+  await sandbox.writeFile(STATIC_ANALYSIS_SCRIPT_PATH, STATIC_ANALYSIS_SCRIPT);
+  await sandbox.writeFile(STATIC_ANALYSIS_INPUT_PATH, code);
+
+  const result = await sandbox.exec(`python3 ${STATIC_ANALYSIS_SCRIPT_PATH} ${policy} ${STATIC_ANALYSIS_INPUT_PATH}`, {
+    timeout: 15000
+  });
+  if (!result.success) {
+    throw new Error(`Static analysis failed: ${result.stderr || `exit code ${result.exitCode}`}`);
+  }
+  return parseAnalysisOutput(result.stdout);
+}
+
+async function prepareNetworkGuard(sandbox: Sandbox): Promise<void> {
+  await sandbox.mkdir(NETWORK_GUARD_DIR, { recursive: true });
+  await sandbox.writeFile(`${NETWORK_GUARD_DIR}/workshop_netguard.py`, NETWORK_GUARD_MODULE);
+  await sandbox.writeFile(`${NETWORK_GUARD_DIR}/sitecustomize.py`, NETWORK_GUARD_SITECUSTOMIZE);
+  // Root-owned and not writable by `nobody`: the limited runner collects its child's attempts
+  // through a pipe, and code-interpreter kernels already run as root.
+  await sandbox.exec(`: > ${NETWORK_LOG_PATH} && chmod 644 ${NETWORK_LOG_PATH}`);
+  await ensureEgressStandIn(sandbox);
+}
+
+async function applyNetworkFirewall(sandbox: Sandbox, policy: NetworkPolicy): Promise<NetworkEnforcement> {
+  const result = await sandbox.exec(networkFirewallScript(policy), { timeout: 15000 });
+  if (result.success) return 'kernel';
+  console.warn('Network firewall unavailable; only the Python guard applies', result.stderr);
+  return 'python';
+}
+
+async function ensureEgressStandIn(sandbox: Sandbox): Promise<void> {
+  let existing: Process | null = null;
+  try {
+    existing = await sandbox.getProcess(EGRESS_STAND_IN_PROCESS_ID);
+  } catch {
+    existing = null;
+  }
+  if (existing?.status === 'running') return;
+
+  if (existing) {
+    await sandbox.killProcess(EGRESS_STAND_IN_PROCESS_ID).catch(() => undefined);
+  }
+  await sandbox.writeFile(EGRESS_STAND_IN_PATH, EGRESS_STAND_IN_SCRIPT);
+  const process = await sandbox.startProcess(`python3 ${EGRESS_STAND_IN_PATH}`, {
+    processId: EGRESS_STAND_IN_PROCESS_ID
+  });
+  await process.waitForPort(EGRESS_STAND_IN_PORTS.api);
+  await process.waitForPort(EGRESS_STAND_IN_PORTS.collector);
+}
+
+async function readNetworkReport(
+  sandbox: Sandbox,
+  policy: NetworkPolicy,
+  enforcement: NetworkEnforcement
+): Promise<NetworkEgressReport> {
+  try {
+    return parseNetworkLog(policy, enforcement, (await sandbox.readFile(NETWORK_LOG_PATH)).content);
+  } catch {
+    return parseNetworkLog(policy, enforcement, undefined);
+  }
+}
+
+async function handleSandboxRequest(request: Request, url: URL, participant: Participant): Promise<Response> {
+  const [sandboxId, action] = url.pathname.replace(/^\/api\/sandboxes\/?/, '').split('/');
+
+  if (!sandboxId) {
+    if (request.method !== 'GET') return json({ ok: false, message: 'Method not allowed' }, 405);
+    const sandboxes: SandboxSummary[] = participantSandboxScopes.map((scope) => ({
+      id: participantSandboxId(participant, scope),
+      scope
+    }));
+    return json({ ok: true, participantId: participant.id, sandboxes });
+  }
+
+  const scope = participantSandboxScope(participant, sandboxId);
+  if (!scope) {
+    return json({ ok: false, message: `Unknown sandbox for this participant: ${sandboxId}` }, 404);
+  }
+
+  const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+
+  try {
+    if (!action && request.method === 'GET') {
+      return json({ ok: true, sandbox: await inspectSandbox(sandbox, { id: sandboxId, scope }, request) });
+    }
+
+    if (action === 'reset' && request.method === 'POST') {
+      await resetSandboxWorkspace(sandbox, request, participant, sandboxId);
+      return json({ ok: true, sandbox: await inspectSandbox(sandbox, { id: sandboxId, scope }, request) });
+    }
+
+    if (!action && request.method === 'DELETE') {
+      await closeTerminalBroadcasts(sandbox, participant, sandboxId);
+      await sandbox.destroy();
+      return json({ ok: true, sandboxId, message: 'Sandbox destroyed. It starts fresh on next use.' });
+    }
+
+    return json({ ok: false, message: 'Method not allowed' }, 405);
+  } catch (error) {
+    return json({ ok: false, sandboxId, message: error instanceof Error ? error.message : String(error) }, 500);
+  }
+}
+
+async function inspectSandbox(
+  sandbox: Sandbox,
+  summary: SandboxSummary,
+  request: Request
+): Promise<SandboxInspection> {
+  const [processes, exposedPorts, codeContexts, usage] = await Promise.all([
+    sandbox.listProcesses(),
+    sandbox.getExposedPorts(previewHostnameFor(request)).catch(() => []),
+    sandbox.listCodeContexts().catch(() => []),
+    sandbox.exec('du -sb /workspace 2>/dev/null | cut -f1')
+  ]);
+  const workspaceBytes = Number.parseInt(usage.stdout.trim(), 10);
+
+  return {
+    ...summary,
+    processes: processes.map((process) => ({
+      id: process.id,
+      command: process.command,
+      status: process.status,
+      startTime: process.startTime ? new Date(process.startTime).toISOString() : undefined
+    })),
+    exposedPorts: exposedPorts.map((port) => ({
+      port: port.port,
+      url: normalizeLocalPreviewUrl(port.url, request.url),
+      status: port.status
+    })),
+    codeContexts: codeContexts.length,
+    workspaceBytes: Number.isFinite(workspaceBytes) ? workspaceBytes : undefined
   };
 }
 
+async function resetSandboxWorkspace(
+  sandbox: Sandbox,
+  request: Request,
+  participant: Participant,
+  sandboxId: string
+): Promise<void> {
+  await sandbox.killAllProcesses();
+
+  const exposedPorts = await sandbox.getExposedPorts(previewHostnameFor(request)).catch(() => []);
+  for (const port of exposedPorts) {
+    await sandbox.unexposePort(port.port);
+  }
+
+  const codeContexts = await sandbox.listCodeContexts().catch(() => []);
+  for (const context of codeContexts) {
+    await sandbox.deleteCodeContext(context.id).catch(() => undefined);
+  }
+
+  // Before the terminal manifest that lists them is deleted with the rest of /workspace.
+  await closeTerminalBroadcasts(sandbox, participant, sandboxId);
+  await sandbox.exec('find /workspace -mindepth 1 -delete');
+}
+
+async function handleHistoryRequest(request: Request, url: URL, participant: Participant): Promise<Response> {
+  if (request.method !== 'GET') return json({ ok: false, message: 'Method not allowed' }, 405);
+  const runId = url.pathname.replace(/^\/api\/history\/?/, '');
+
+  try {
+    const history = runHistory(participant);
+
+    if (runId) {
+      const run = await history.get(runId);
+      if (!run) return json({ ok: false, message: `Unknown run: ${runId}` }, 404);
+      return json({ ok: true, run });
+    }
+
+    const kind = url.searchParams.get('kind');
+    if (kind && !runHistoryKinds.includes(kind as RunHistoryKind)) {
+      return json(
+        { ok: false, message: `Unknown history kind: ${kind}. Use one of ${runHistoryKinds.join(', ')}.` },
+        400
+      );
+    }
+
+    const runs = await history.list({
+      kind: (kind as RunHistoryKind | null) ?? undefined,
+      targetId: url.searchParams.get('target') ?? undefined,
+      limit: Math.min(positiveInt(url.searchParams.get('limit')) ?? HISTORY_PAGE_SIZE, HISTORY_MAX_PAGE_SIZE)
+    });
+    return json({ ok: true, runs });
+  } catch (error) {
+    return json({ ok: false, message: error instanceof Error ? error.message : String(error) }, 500);
+  }
+}
+
+function runHistory(participant: Participant): DurableObjectStub<RunHistory> {
+  return env.RunHistory.getByName(participant.id);
+}
+
+// History is a convenience; a storage failure must never turn a finished run into an error.
+async function recordRun(
+  participant: Participant,
+  kind: RunHistoryKind,
+  targetId: string,
+  startedAt: Date,
+  request: object | undefined,
+  result: RunHistoryEntry['result']
+): Promise<void> {
+  const entry: RunHistoryEntry = {
+    id: crypto.randomUUID(),
+    kind,
+    targetId,
+    ok: result.ok,
+    summary: result.summary,
+    exitCode: result.exitCode,
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    request: request as Record<string, unknown> | undefined,
+    result
+  };
+
+  try {
+    await Promise.all([
+      runHistory(participant).record(entry),
+      workshopRoster().record({
+        id: entry.id,
+        kind,
+        targetId,
+        ok: entry.ok,
+        summary: entry.summary,
+        exitCode: entry.exitCode,
+        startedAt: entry.startedAt,
+        durationMs: entry.durationMs,
+        participantId: participant.id,
+        sandboxId: result.sandboxId
+      })
+    ]);
+  } catch (error) {
+    console.warn('Could not record run history', error);
+  }
+}
+
+function workshopRoster(): DurableObjectStub<WorkshopRoster> {
+  return env.WorkshopRoster.getByName(WORKSHOP_ROSTER_NAME);
+}
+
+// Without a FACILITATOR_TOKEN the dashboard only opens on local dev hosts.
+async function isFacilitatorRequest(request: Request, url: URL): Promise<boolean> {
+  if (!env.FACILITATOR_TOKEN) return isLocalHostname(url.hostname);
+  return await matchesFacilitatorToken(request, env.FACILITATOR_TOKEN);
+}
+
+async function handleFacilitatorRequest(request: Request, url: URL): Promise<Response> {
+  if (!(await isFacilitatorRequest(request, url))) {
+    return json({ ok: false, message: 'Facilitator token required.' }, 401);
+  }
+
+  const [section, participantId, resource, resourceId, action] = url.pathname
+    .replace(/^\/api\/facilitator\/?/, '')
+    .split('/');
+
+  try {
+    if (!section && request.method === 'GET') {
+      return json({ ok: true, overview: await workshopRoster().overview() });
+    }
+
+    if (section !== 'participants' || !participantId || !/^[a-f0-9]{12}$/.test(participantId)) {
+      return json({ ok: false, message: `Unknown facilitator route: ${url.pathname}` }, 404);
+    }
+    const participant: Participant = { id: participantId };
+
+    if (resource === 'recordings' && !resourceId && request.method === 'GET') {
+      return json({ ok: true, recordings: await terminalRecordings(participant).list({ limit: RECORDINGS_PAGE_SIZE }) });
+    }
+
+    if (resource === 'recordings' && !action && request.method === 'GET') {
+      return await castResponse(participant, resourceId);
+    }
+
+    if (!resourceId) {
+      return json({ ok: false, message: `Unknown facilitator route: ${url.pathname}` }, 404);
+    }
+
+    if (resource === 'runs' && !action && request.method === 'GET') {
+      const run = await runHistory(participant).get(resourceId);
+      if (!run) return json({ ok: false, message: `Unknown run: ${resourceId}` }, 404);
+      return json({ ok: true, run });
+    }
+
+    if (resource === 'sandboxes') {
+      const scope = participantSandboxScopes.find((candidate) => candidate === resourceId);
+      if (!scope) return json({ ok: false, message: `Unknown sandbox scope: ${resourceId}` }, 404);
+
+      const sandboxId = participantSandboxId(participant, scope);
+      const sandbox = getSandbox(env.Sandbox, sandboxId, { normalizeId: true });
+
+      if (!action && request.method === 'GET') {
+        return json({ ok: true, sandbox: await inspectSandbox(sandbox, { id: sandboxId, scope }, request) });
+      }
+
+      if (action === 'reset' && request.method === 'POST') {
+        await resetSandboxWorkspace(sandbox, request, participant, sandboxId);
+        return json({ ok: true, sandbox: await inspectSandbox(sandbox, { id: sandboxId, scope }, request) });
+      }
+    }
+
+    return json({ ok: false, message: 'Method not allowed' }, 405);
+  } catch (error) {
+    return json({ ok: false, message: error instanceof Error ? error.message : String(error) }, 500);
+  }
+}
+
 async function serveSpaAssets(request: Request): Promise<Response> {
   const assetResponse = await env.ASSETS.fetch(request);
 
@@ -1033,3 +3118,4 @@ function positiveInt(value: string | null): number | undefined {
   if (!Number.isFinite(parsed) || parsed <= 0) return undefined;
   return parsed;
 }
+
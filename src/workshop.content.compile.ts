@@ -0,0 +1,180 @@
+// Compiles the Markdown files under content/ into plain data. Runs at build time through the
+// workshopContent Vite plugin, so neither the browser nor the worker parses Markdown or YAML.
+import { parse as parseYaml } from 'yaml';
+import type { CompiledContent, ContentBlock, RunnableLanguage } from './workshop.content';
+
+const RUNNABLE_LANGUAGE_ALIASES: Record<string, RunnableLanguage> = {
+  python: 'python',
+  py: 'python',
+  bash: 'bash',
+  sh: 'bash',
+  shell: 'bash',
+  javascript: 'javascript',
+  js: 'javascript'
+};
+
+export type ContentCollection = 'sessions' | 'examples';
+
+type FrontmatterType = 'string' | 'boolean' | 'string[]' | 'object' | 'array';
+
+// Keys each collection's frontmatter may use; a typo or a missing key fails the build.
+const frontmatterSchemas: Record<ContentCollection, Record<string, { type: FrontmatterType; required?: boolean }>> = {
+  sessions: {
+    id: { type: 'string', required: true },
+    slug: { type: 'string', required: true },
+    title: { type: 'string', required: true },
+    focus: { type: 'string', required: true },
+    demo: { type: 'string', required: true },
+    handsOn: { type: 'string', required: true },
+    resultSummary: { type: 'string', required: true },
+    useCases: { type: 'string[]' },
+    includesTerminal: { type: 'boolean' },
+    runner: { type: 'object', required: true }
+  },
+  // Behavior that needs code (prompts, languages, shared fields) can stay in workshop.examples.ts.
+  examples: {
+    id: { type: 'string', required: true },
+    slug: { type: 'string', required: true },
+    title: { type: 'string', required: true },
+    workshopGoal: { type: 'string', required: true },
+    prompt: { type: 'string', required: true },
+    method: { type: 'string', required: true },
+    defaultInput: { type: 'string' },
+    analysisPolicy: { type: 'string' },
+    runner: { type: 'object' },
+    fields: { type: 'array' },
+    panels: { type: 'string[]' },
+    messages: { type: 'object' }
+  }
+};
+
+export function compileWorkshopContent(source: string, file: string, collection: ContentCollection): CompiledContent {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(source);
+  if (!match) {
+    throw new Error(`${file}: content files must start with a --- frontmatter block.`);
+  }
+
+  let frontmatter: unknown;
+  try {
+    frontmatter = parseYaml(match[1]);
+  } catch (error) {
+    throw new Error(`${file}: invalid frontmatter YAML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isRecord(frontmatter)) {
+    throw new Error(`${file}: frontmatter must be a mapping.`);
+  }
+  checkFrontmatter(frontmatter, frontmatterSchemas[collection], file);
+
+  return { file, frontmatter, body: parseMarkdownBlocks(source.slice(match[0].length), file) };
+}
+
+function checkFrontmatter(
+  frontmatter: Record<string, unknown>,
+  schema: (typeof frontmatterSchemas)[ContentCollection],
+  file: string
+) {
+  for (const [key, value] of Object.entries(frontmatter)) {
+    const entry = schema[key];
+    if (!entry) throw new Error(`${file}: unknown frontmatter key "${key}".`);
+    if (!matchesFrontmatterType(value, entry.type)) {
+      throw new Error(`${file}: frontmatter "${key}" must be ${entry.type}.`);
+    }
+  }
+
+  for (const [key, entry] of Object.entries(schema)) {
+    if (entry.required && frontmatter[key] === undefined) {
+      throw new Error(`${file}: frontmatter is missing "${key}".`);
+    }
+  }
+}
+
+function matchesFrontmatterType(value: unknown, type: FrontmatterType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string');
+    case 'object':
+      return isRecord(value);
+    case 'array':
+      return Array.isArray(value);
+  }
+}
+
+export function parseMarkdownBlocks(markdown: string, file: string): ContentBlock[] {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const blocks: ContentBlock[] = [];
+  let paragraph: string[] = [];
+  let list: string[] | undefined;
+  let runnableCount = 0;
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+    if (list) blocks.push({ type: 'list', items: list });
+    paragraph = [];
+    list = undefined;
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+
+    const fence = /^```\s*(\S*)\s*(.*)$/.exec(line);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index].startsWith('```')) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      if (index >= lines.length) throw new Error(`${file}: unclosed code fence.`);
+
+      const [language, tags] = [fence[1].toLowerCase(), fence[2].split(/\s+/)];
+      if (!tags.includes('run')) {
+        blocks.push({ type: 'code', language, code: code.join('\n') });
+        continue;
+      }
+
+      const runnable = RUNNABLE_LANGUAGE_ALIASES[language];
+      if (!runnable) {
+        throw new Error(
+          `${file}: cannot run ${language || 'untagged'} blocks; use ${Object.keys(RUNNABLE_LANGUAGE_ALIASES).join(', ')}.`
+        );
+      }
+      runnableCount += 1;
+      blocks.push({ type: 'runnable', id: `block-${runnableCount}`, language: runnable, code: code.join('\n') });
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2].trim() });
+      continue;
+    }
+
+    const item = /^\s*[-*]\s+(.*)$/.exec(line);
+    if (item) {
+      if (paragraph.length > 0) flush();
+      list = [...(list ?? []), item[1].trim()];
+      continue;
+    }
+
+    if (!line.trim() || /^-{3,}\s*$/.test(line)) {
+      flush();
+      continue;
+    }
+
+    if (list) flush();
+    paragraph.push(line.trim());
+  }
+
+  flush();
+  return blocks;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
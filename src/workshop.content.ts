@@ -0,0 +1,25 @@
+// Shapes of the compiled content under content/, shared by the app and the worker. The compiler itself
+// is in workshop.content.compile.ts, which only the Vite config imports.
+
+export type ContentBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  | { type: 'code'; language: string; code: string }
+  // A fenced block tagged "run", e.g. ```python run, shown with a "Run in sandbox" button.
+  | { type: 'runnable'; id: string; language: RunnableLanguage; code: string };
+
+export type CompiledContent = {
+  file: string;
+  frontmatter: Record<string, unknown>;
+  body: ContentBlock[];
+};
+
+// How a runnable block is executed: written to file, then run with command from the sandbox.
+export const runnableLanguages = {
+  python: { file: 'block.py', command: 'python3 block.py' },
+  bash: { file: 'block.sh', command: 'bash block.sh' },
+  javascript: { file: 'block.mjs', command: 'node block.mjs' }
+} as const;
+
+export type RunnableLanguage = keyof typeof runnableLanguages;
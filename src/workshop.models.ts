@@ -0,0 +1,34 @@
+export type AiModelDefinition = {
+  id: string;
+  label: string;
+  maxTokens: number;
+  temperature: number;
+};
+
+// Only these Workers AI models can be requested; the first one is the default.
+export const aiModels: AiModelDefinition[] = [
+  {
+    id: '@cf/zai-org/glm-4.7-flash',
+    label: 'GLM 4.7 Flash',
+    maxTokens: 2048,
+    temperature: 0.2
+  },
+  {
+    id: '@cf/qwen/qwen2.5-coder-32b-instruct',
+    label: 'Qwen 2.5 Coder 32B',
+    maxTokens: 2048,
+    temperature: 0.1
+  },
+  {
+    id: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+    label: 'Llama 3.3 70B (fast)',
+    maxTokens: 2048,
+    temperature: 0.2
+  }
+];
+
+export const defaultAiModelId = aiModels[0].id;
+
+export const aiModelById = Object.fromEntries(
+  aiModels.map((model) => [model.id, model])
+) as Record<string, AiModelDefinition>;
@@ -0,0 +1,66 @@
+// Runners with hand-written worker code; everything else is a command runner declared as data.
+export const builtinRunnerKinds = ['ai-code', 'data-analysis', 'dev-preview', 'ci', 'untrusted-code'] as const;
+
+export type BuiltinRunnerKind = (typeof builtinRunnerKinds)[number];
+
+export type CommandResultParser = 'text' | 'json' | 'tap';
+
+// Setup files are written under the runner directory, then the command runs there.
+// {{name}} in the command is replaced with the shell-quoted value of that input field.
+export type CommandRunnerDefinition = {
+  kind: 'command';
+  setupFiles?: Record<string, string>;
+  // Where the "input" field is written, relative to the runner directory.
+  inputPath?: string;
+  command: string;
+  timeoutMs?: number;
+  parser: CommandResultParser;
+};
+
+export type ExampleRunnerDefinition = { kind: BuiltinRunnerKind } | CommandRunnerDefinition;
+
+// Shows a field only while another field has (or doesn't have) a given value.
+export type FieldCondition = {
+  field: string;
+  equals?: string;
+  notEquals?: string;
+};
+
+export type FieldOption = {
+  value: string | number;
+  label: string;
+};
+
+type FieldBase = {
+  // The request body key the value is sent as.
+  name: string;
+  label: string;
+  when?: FieldCondition;
+};
+
+// Describes one input of an example: ExamplePage renders it, and the worker accepts only declared fields.
+// Labels may contain {language}, replaced with the selected language's label.
+export type ExampleField =
+  | (FieldBase & { kind: 'text'; defaultValue?: string; placeholder?: string })
+  | (FieldBase & { kind: 'textarea'; defaultValue?: string; rows?: number })
+  // The example's main input; defaults to defaultInput or the selected language's snippet.
+  | (FieldBase & { kind: 'code'; rows?: number; generateFrom?: string })
+  | (FieldBase & { kind: 'select'; options: FieldOption[]; defaultValue: string | number })
+  // Picks from the example's languages and resets the code field to that language's snippet.
+  | (FieldBase & { kind: 'language'; codeField: string })
+  | (FieldBase & { kind: 'file'; accept: string })
+  // Uploaded to the example's upload endpoint; the value sent is the stored dataset name.
+  | (FieldBase & { kind: 'dataset'; accept: string })
+  | (FieldBase & { kind: 'network' })
+  | (FieldBase & { kind: 'limits' })
+  | { kind: 'note'; text: string; when?: FieldCondition };
+
+export type ExamplePanel = 'notebook' | 'previews';
+
+export function fieldIsVisible(field: ExampleField, values: Record<string, unknown>): boolean {
+  if (!field.when) return true;
+  const value = String(values[field.when.field] ?? '');
+  if (field.when.equals !== undefined && value !== field.when.equals) return false;
+  if (field.when.notEquals !== undefined && value === field.when.notEquals) return false;
+  return true;
+}
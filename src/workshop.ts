@@ -2,12 +2,51 @@ export {
   sessions,
   sessionById,
   type SessionId,
-  type SessionDefinition
+  type SessionDefinition,
+  type SessionRunnerDefinition
 } from './workshop.sessions';
 
 export {
   examples,
   exampleById,
+  previewPorts,
+  codeLanguages,
+  ciTestCommands,
+  defaultNetworkPolicy,
+  defaultResourceLimits,
+  maxRepairAttempts,
+  networkPolicyModes,
+  staticAnalysisPolicies,
   type ExampleId,
-  type ExampleDefinition
+  type CodeLanguageOption,
+  type ExampleDefinition,
+  type PreviewPort,
+  type PromptTemplate
 } from './workshop.examples';
+
+export {
+  builtinRunnerKinds,
+  fieldIsVisible,
+  type BuiltinRunnerKind,
+  type CommandResultParser,
+  type CommandRunnerDefinition,
+  type ExampleField,
+  type ExamplePanel,
+  type ExampleRunnerDefinition,
+  type FieldCondition,
+  type FieldOption
+} from './workshop.runners';
+
+export {
+  runnableLanguages,
+  type CompiledContent,
+  type ContentBlock,
+  type RunnableLanguage
+} from './workshop.content';
+
+export {
+  aiModels,
+  aiModelById,
+  defaultAiModelId,
+  type AiModelDefinition
+} from './workshop.models';
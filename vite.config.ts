@@ -1,9 +1,25 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import tailwindcss from '@tailwindcss/vite';
 import { cloudflare } from '@cloudflare/vite-plugin';
+import { compileWorkshopContent, type ContentCollection } from './src/workshop.content.compile';
+
+// Turns content/sessions/*.md and content/examples/*.md into JSON modules, for the app and the worker alike.
+function workshopContent(): Plugin {
+  return {
+    name: 'workshop-content',
+    enforce: 'pre',
+    transform(source, id) {
+      const match = /\/(content\/(sessions|examples)\/[^/]+\.md)$/.exec(id.split('?')[0]);
+      if (!match) return null;
+
+      const compiled = compileWorkshopContent(source, match[1], match[2] as ContentCollection);
+      return { code: `export default ${JSON.stringify(compiled)};`, map: null };
+    }
+  };
+}
 
 export default defineConfig({
-  plugins: [cloudflare(), tailwindcss()],
+  plugins: [workshopContent(), cloudflare(), tailwindcss()],
   build: {
     outDir: 'dist',
     sourcemap: true,